@@ -0,0 +1,23 @@
+// Copies the Tesseract language data and wasm cores into public/ so OCR runs
+// entirely from our own origin instead of fetching them from a CDN at runtime.
+import { copyFileSync, mkdirSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const source = join(dirname(require.resolve('@tesseract.js-data/eng/package.json')), '4.0.0_best_int', 'eng.traineddata.gz');
+const target = join(root, 'public', 'tesseract');
+
+mkdirSync(target, { recursive: true });
+copyFileSync(source, join(target, 'eng.traineddata.gz'));
+
+// tesseract.js picks one of these per browser (relaxed SIMD, SIMD or plain
+// wasm) when corePath is a directory; only the LSTM engine is used
+const coreSource = dirname(require.resolve('tesseract.js-core/package.json'));
+const coreTarget = join(target, 'core');
+mkdirSync(coreTarget, { recursive: true });
+for (const core of ['tesseract-core-lstm.wasm.js', 'tesseract-core-simd-lstm.wasm.js', 'tesseract-core-relaxedsimd-lstm.wasm.js']) {
+  copyFileSync(join(coreSource, core), join(coreTarget, core));
+}
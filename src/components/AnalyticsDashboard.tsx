@@ -1,15 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { TrendingUp, Files, Clock, CheckCircle, AlertCircle, Activity } from 'lucide-react';
+import { TrendingUp, Files, Clock, CheckCircle, AlertCircle, Activity, Tags } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import { useDocumentTypes } from '@/hooks/useDocumentTypes';
 import { fileApi, type Metrics } from '@/lib/api';
+import { getClassificationLabel } from '@/lib/classifications';
 
 const AnalyticsDashboard: React.FC = () => {
   const [metrics, setMetrics] = useState<Metrics | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
+  const { documentTypes } = useDocumentTypes();
 
   useEffect(() => {
     loadMetrics();
@@ -78,6 +81,15 @@ const AnalyticsDashboard: React.FC = () => {
     );
   }
 
+  // Every taxonomy type is listed, even when empty; classifications left over
+  // from deleted types and unclassified documents follow
+  const typeNames = documentTypes.map(type => type.name);
+  const typeBreakdown = [
+    ...typeNames,
+    ...Object.keys(metrics.classificationCounts).filter(name => name && !typeNames.includes(name)),
+    ...(metrics.classificationCounts[''] ? [''] : []),
+  ].map(name => ({ name, count: metrics.classificationCounts[name] ?? 0 }));
+
   return (
     <div className="space-y-6">
       {/* Key Metrics Grid */}
@@ -218,6 +230,9 @@ const AnalyticsDashboard: React.FC = () => {
               <p className="text-xs text-muted-foreground">
                 Average processing time: {metrics.averageProcessingTime.toFixed(1)}s
               </p>
+              <p className="text-xs text-muted-foreground">
+                Average model latency: {metrics.averageProviderLatency.toFixed(1)}s
+              </p>
             </div>
           </CardContent>
         </Card>
@@ -271,6 +286,27 @@ const AnalyticsDashboard: React.FC = () => {
           </CardContent>
         </Card>
       </div>
+
+      {/* Documents by Type */}
+      <Card className="gradient-card hover-lift shadow-colored">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-xl">
+            <Tags className="h-6 w-6 text-primary" />
+            Documents by Type
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {typeBreakdown.map(({ name, count }) => (
+            <div key={name || 'unclassified'} className="space-y-1">
+              <div className="flex justify-between items-center text-sm">
+                <span>{getClassificationLabel(name)}</span>
+                <span className="font-semibold">{formatNumber(count)}</span>
+              </div>
+              <Progress value={metrics.totalFiles > 0 ? (count / metrics.totalFiles) * 100 : 0} className="h-2" />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
     </div>
   );
 };
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { MessageSquareText, Send, FileText, Loader2, AlertCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { fileApi, type AnswerCitation, type DocumentAnswer } from '@/lib/api';
+
+interface AskDocumentsProps {
+  onCitationSelect: (citation: AnswerCitation) => void;
+}
+
+interface Turn {
+  id: number;
+  question: string;
+  answer?: DocumentAnswer;
+  error?: string;
+}
+
+const CITATION_MARKER = /(\[\d+\])/;
+
+const EXAMPLE_QUESTIONS = [
+  'Which contracts renew automatically?',
+  'What is the notice period in our supplier agreements?',
+  'Which invoices are due this month?',
+];
+
+const AskDocuments: React.FC<AskDocumentsProps> = ({ onCitationSelect }) => {
+  const [question, setQuestion] = useState('');
+  const [turns, setTurns] = useState<Turn[]>([]);
+  const [asking, setAsking] = useState(false);
+
+  const ask = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || asking) return;
+
+    const id = Date.now();
+    setTurns(prev => [...prev, { id, question: trimmed }]);
+    setQuestion('');
+    setAsking(true);
+
+    try {
+      const answer = await fileApi.askDocuments(trimmed);
+      setTurns(prev => prev.map(turn => turn.id === id ? { ...turn, answer } : turn));
+    } catch (error) {
+      setTurns(prev => prev.map(turn => turn.id === id
+        ? { ...turn, error: error instanceof Error ? error.message : 'Failed to answer question' }
+        : turn));
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      ask(question);
+    }
+  };
+
+  const renderAnswer = ({ answer, citations }: DocumentAnswer) =>
+    answer.split(CITATION_MARKER).map((part, index) => {
+      const citation = CITATION_MARKER.test(part)
+        ? citations.find(c => `[${c.number}]` === part)
+        : undefined;
+      if (!citation) return <React.Fragment key={index}>{part}</React.Fragment>;
+      return (
+        <button
+          key={index}
+          type="button"
+          onClick={() => onCitationSelect(citation)}
+          className="mx-0.5 align-super text-xs font-medium text-primary hover:underline"
+          title={`${citation.fileName}${citation.page != null ? `, page ${citation.page}` : ''}`}
+        >
+          [{citation.number}]
+        </button>
+      );
+    });
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-xl">
+            <MessageSquareText className="h-6 w-6 text-primary" />
+            Ask Your Documents
+          </CardTitle>
+          <p className="text-muted-foreground">
+            Answers come from your uploaded documents, with the document and page behind each claim
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Textarea
+            placeholder="Ask a question, e.g. which contracts can be terminated with less than 60 days notice?"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={handleKeyDown}
+            rows={3}
+          />
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex flex-wrap gap-2">
+              {turns.length === 0 && EXAMPLE_QUESTIONS.map(example => (
+                <Button key={example} variant="outline" size="sm" onClick={() => ask(example)} disabled={asking}>
+                  {example}
+                </Button>
+              ))}
+            </div>
+            <Button onClick={() => ask(question)} disabled={asking || !question.trim()} className="flex items-center gap-2">
+              {asking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              Ask
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {[...turns].reverse().map(turn => (
+        <Card key={turn.id}>
+          <CardHeader>
+            <CardTitle className="text-base">{turn.question}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!turn.answer && !turn.error && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Searching your documents...
+              </div>
+            )}
+
+            {turn.error && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                {turn.error}
+              </div>
+            )}
+
+            {turn.answer && (
+              <>
+                <p className="text-sm leading-relaxed whitespace-pre-wrap">{renderAnswer(turn.answer)}</p>
+
+                {turn.answer.pendingPassages > 0 && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <AlertCircle className="h-4 w-4 shrink-0" />
+                    {turn.answer.pendingPassages} passage{turn.answer.pendingPassages === 1 ? ' is' : 's are'} still being indexed, so this answer may miss recently added documents.
+                  </div>
+                )}
+
+                {turn.answer.citations.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-xs font-medium uppercase text-muted-foreground">Sources</h4>
+                    {turn.answer.citations.map(citation => (
+                      <button
+                        key={citation.number}
+                        type="button"
+                        onClick={() => onCitationSelect(citation)}
+                        className="w-full text-left rounded-lg border p-3 hover:bg-muted/50 transition-colors"
+                      >
+                        <div className="flex items-center gap-2 text-sm font-medium">
+                          <span className="text-primary">[{citation.number}]</span>
+                          <FileText className="h-4 w-4 text-muted-foreground" />
+                          <span className="truncate">{citation.fileName}</span>
+                          {citation.page != null && (
+                            <span className="text-xs font-normal text-muted-foreground shrink-0">page {citation.page}</span>
+                          )}
+                        </div>
+                        <p className="mt-1 text-xs text-muted-foreground line-clamp-2">{citation.passage}</p>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default AskDocuments;
@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import { Check, ChevronRight, Folder, FolderOpen, FolderPlus, MoreHorizontal, Pencil, Trash2, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { useFileFilterParams } from '@/hooks/useFileFilterParams';
+import { collectionApi, type Collection } from '@/lib/api';
+import { DOCUMENT_DRAG_TYPE, getCollectionScope } from '@/lib/collections';
+import { cn } from '@/lib/utils';
+
+interface CollectionsSidebarProps {
+  // Called after a document is dropped into a folder
+  onDocumentsChange?: () => void;
+}
+
+// Where the inline name input is open: a new folder under parentId, or a rename
+type Draft = { mode: 'create'; parentId: string | null } | { mode: 'rename'; id: string };
+
+const byName = (a: Collection, b: Collection) => a.name.localeCompare(b.name);
+
+/**
+ * The user's folder tree. Selecting a folder filters the file list to it and
+ * its subfolders; documents are added by dragging them onto a folder.
+ */
+const CollectionsSidebar: React.FC<CollectionsSidebarProps> = ({ onDocumentsChange }) => {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const { filters, updateFilters } = useFileFilterParams();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadCollections = async () => {
+      try {
+        setCollections(await collectionApi.getCollections());
+      } catch (error) {
+        console.error('Failed to load folders:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load folders",
+          variant: "destructive",
+        });
+      }
+    };
+    loadCollections();
+  }, [toast]);
+
+  const showError = (description: string, error: unknown) => {
+    console.error(description, error);
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const startDraft = (next: Draft, name = '') => {
+    setDraft(next);
+    setDraftName(name);
+    if (next.mode === 'create' && next.parentId) {
+      setExpanded(prev => new Set(prev).add(next.parentId as string));
+    }
+  };
+
+  const handleSubmitDraft = async () => {
+    const name = draftName.trim();
+    if (!draft || !name) {
+      setDraft(null);
+      return;
+    }
+
+    try {
+      if (draft.mode === 'create') {
+        const created = await collectionApi.createCollection(name, draft.parentId);
+        setCollections(prev => [...prev, created].sort(byName));
+      } else {
+        await collectionApi.updateCollection(draft.id, { name });
+        setCollections(prev => prev.map(item => item.id === draft.id ? { ...item, name } : item).sort(byName));
+      }
+      setDraft(null);
+    } catch (error) {
+      const parentId = draft.mode === 'create' ? draft.parentId : collections.find(item => item.id === draft.id)?.parentId;
+      showError(collections.some(item => item.parentId === parentId && item.name === name)
+        ? `A folder named "${name}" already exists here`
+        : "Failed to save folder", error);
+    }
+  };
+
+  const handleDelete = async (collection: Collection) => {
+    const removed = getCollectionScope(collections, collection.id);
+    try {
+      await collectionApi.deleteCollection(collection.id);
+      setCollections(prev => prev.filter(item => !removed.includes(item.id)));
+      if (filters.collectionId && removed.includes(filters.collectionId)) {
+        updateFilters({ collectionId: null });
+      }
+    } catch (error) {
+      showError("Failed to delete folder", error);
+    }
+  };
+
+  const handleDragOver = (event: React.DragEvent, collectionId: string) => {
+    if (!event.dataTransfer.types.includes(DOCUMENT_DRAG_TYPE)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setDropTargetId(collectionId);
+  };
+
+  const handleDrop = async (event: React.DragEvent, collection: Collection) => {
+    const fileId = event.dataTransfer.getData(DOCUMENT_DRAG_TYPE);
+    setDropTargetId(null);
+    if (!fileId) return;
+    event.preventDefault();
+
+    try {
+      await collectionApi.addDocument(collection.id, fileId);
+      onDocumentsChange?.();
+      toast({
+        title: "Success",
+        description: `Added to "${collection.name}"`,
+      });
+    } catch (error) {
+      showError("Failed to add document to folder", error);
+    }
+  };
+
+  const renderDraftInput = (key: string, depth: number) => (
+    <div key={key} className="flex items-center gap-1" style={{ paddingLeft: depth * 12 }}>
+      <Input
+        value={draftName}
+        onChange={(e) => setDraftName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleSubmitDraft();
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        placeholder="Folder name"
+        className="h-8"
+        autoFocus
+      />
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={handleSubmitDraft}>
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setDraft(null)}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  const renderTree = (parentId: string | null, depth: number): React.ReactNode[] => {
+    const nodes: React.ReactNode[] = collections
+      .filter(collection => collection.parentId === parentId)
+      .map(collection => {
+        if (draft?.mode === 'rename' && draft.id === collection.id) {
+          return renderDraftInput(collection.id, depth);
+        }
+
+        const hasChildren = collections.some(child => child.parentId === collection.id)
+          || (draft?.mode === 'create' && draft.parentId === collection.id);
+        const isExpanded = expanded.has(collection.id);
+        const active = filters.collectionId === collection.id;
+
+        return (
+          <React.Fragment key={collection.id}>
+            <div
+              className={cn(
+                "group flex items-center gap-1 rounded-lg py-1.5 pr-2 text-sm cursor-pointer hover:bg-muted/50",
+                active && "bg-primary/10 text-primary",
+                dropTargetId === collection.id && "ring-2 ring-primary bg-primary/10"
+              )}
+              style={{ paddingLeft: depth * 12 + 4 }}
+              onClick={() => updateFilters({ collectionId: active ? null : collection.id })}
+              onDragOver={(e) => handleDragOver(e, collection.id)}
+              onDragLeave={() => setDropTargetId(current => current === collection.id ? null : current)}
+              onDrop={(e) => handleDrop(e, collection)}
+            >
+              <button
+                type="button"
+                className={cn("h-4 w-4 shrink-0 text-muted-foreground", !hasChildren && "invisible")}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleExpanded(collection.id);
+                }}
+              >
+                <ChevronRight className={cn("h-4 w-4 transition-transform", isExpanded && "rotate-90")} />
+              </button>
+              {active || dropTargetId === collection.id
+                ? <FolderOpen className="h-4 w-4 shrink-0" />
+                : <Folder className="h-4 w-4 shrink-0" />}
+              <span className="flex-1 truncate">{collection.name}</span>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => e.stopPropagation()}
+                    className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                  >
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                  <DropdownMenuItem onClick={() => startDraft({ mode: 'create', parentId: collection.id })}>
+                    <FolderPlus className="h-4 w-4 mr-2" />
+                    New subfolder
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => startDraft({ mode: 'rename', id: collection.id }, collection.name)}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Rename
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleDelete(collection)} className="text-destructive">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+            {isExpanded && renderTree(collection.id, depth + 1)}
+          </React.Fragment>
+        );
+      });
+
+    if (draft?.mode === 'create' && draft.parentId === parentId) {
+      nodes.push(renderDraftInput(`new-${parentId ?? 'root'}`, depth));
+    }
+    return nodes;
+  };
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          Folders
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => startDraft({ mode: 'create', parentId: null })}
+            title="New folder"
+          >
+            <FolderPlus className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {collections.length === 0 && !draft && (
+          <p className="px-2 text-xs text-muted-foreground">
+            Create a folder, then drag documents onto it. A document can be in several folders.
+          </p>
+        )}
+        {renderTree(null, 0)}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CollectionsSidebar;
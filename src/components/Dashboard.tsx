@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { Upload, BarChart3, FileText, Settings, LogOut, User, Brain } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Upload, BarChart3, FileText, Settings, LogOut, User, Brain, ClipboardCheck, MessageSquareText } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -8,15 +9,23 @@ import FileList from './FileList';
 import FileDetailsModal from './FileDetailsModal';
 import AnalyticsDashboard from './AnalyticsDashboard';
 import ExtractedDataViewer from './ExtractedDataViewer';
-import { type FileUpload as FileUploadType } from '@/lib/api';
+import SettingsPanel from './SettingsPanel';
+import AskDocuments from './AskDocuments';
+import SavedSearchesSidebar from './SavedSearchesSidebar';
+import CollectionsSidebar from './CollectionsSidebar';
+import { fileApi, type AnswerCitation, type FileUpload as FileUploadType } from '@/lib/api';
 import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 
 const Dashboard: React.FC = () => {
   const { user, signOut } = useAuth();
   const [selectedFile, setSelectedFile] = useState<FileUploadType | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [organizationVersion, setOrganizationVersion] = useState(0);
   const [activeTab, setActiveTab] = useState('files');
+  const [focusedPassage, setFocusedPassage] = useState<{ start: number; end: number } | null>(null);
+  const { toast } = useToast();
 
   const handleUploadComplete = () => {
     setRefreshTrigger(prev => prev + 1);
@@ -24,10 +33,31 @@ const Dashboard: React.FC = () => {
     setActiveTab('files');
   };
 
+  // Tag and folder changes refresh the list without jumping back to page 1
+  const handleOrganizationChange = () => {
+    setOrganizationVersion(prev => prev + 1);
+  };
+
   const handleFileSelect = (file: FileUploadType) => {
+    setFocusedPassage(null);
     setSelectedFile(file);
   };
 
+  const handleCitationSelect = async (citation: AnswerCitation) => {
+    try {
+      const file = await fileApi.getFile(citation.fileId);
+      setFocusedPassage({ start: citation.startOffset, end: citation.endOffset });
+      setSelectedFile(file);
+    } catch (error) {
+      console.error('Failed to open cited document:', error);
+      toast({
+        title: "Error",
+        description: "Failed to open the cited document",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-subtle">
       {/* Header */}
@@ -51,6 +81,12 @@ const Dashboard: React.FC = () => {
                 <User className="w-3 h-3 mr-1" />
                 {user?.email}
               </Badge>
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/review" className="flex items-center gap-2">
+                  <ClipboardCheck className="w-4 h-4" />
+                  Review Queue
+                </Link>
+              </Button>
               <Button 
                 variant="outline" 
                 size="sm" 
@@ -68,7 +104,7 @@ const Dashboard: React.FC = () => {
       {/* Main Content */}
       <div className="container mx-auto px-4 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-4 mb-8">
+          <TabsList className="grid w-full grid-cols-6 mb-8">
             <TabsTrigger value="upload" className="flex items-center gap-2">
               <Upload className="h-4 w-4" />
               Upload Files
@@ -77,6 +113,10 @@ const Dashboard: React.FC = () => {
               <FileText className="h-4 w-4" />
               File Library
             </TabsTrigger>
+            <TabsTrigger value="ask" className="flex items-center gap-2">
+              <MessageSquareText className="h-4 w-4" />
+              Ask
+            </TabsTrigger>
             <TabsTrigger value="extracted" className="flex items-center gap-2">
               <Brain className="h-4 w-4" />
               Extracted Data
@@ -85,6 +125,10 @@ const Dashboard: React.FC = () => {
               <BarChart3 className="h-4 w-4" />
               Analytics
             </TabsTrigger>
+            <TabsTrigger value="settings" className="flex items-center gap-2">
+              <Settings className="h-4 w-4" />
+              Settings
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="upload" className="space-y-6">
@@ -160,10 +204,23 @@ const Dashboard: React.FC = () => {
           </TabsContent>
 
           <TabsContent value="files" className="space-y-6">
-            <FileList 
-              refreshTrigger={refreshTrigger}
-              onFileSelect={handleFileSelect}
-            />
+            <div className="flex flex-col lg:flex-row gap-6">
+              <aside className="lg:w-72 shrink-0 space-y-6">
+                <SavedSearchesSidebar />
+                <CollectionsSidebar onDocumentsChange={handleOrganizationChange} />
+              </aside>
+              <div className="flex-1 min-w-0">
+                <FileList 
+                  refreshTrigger={refreshTrigger}
+                  organizationVersion={organizationVersion}
+                  onFileSelect={handleFileSelect}
+                />
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="ask" className="space-y-6">
+            <AskDocuments onCitationSelect={handleCitationSelect} />
           </TabsContent>
 
           <TabsContent value="extracted" className="space-y-6">
@@ -173,6 +230,10 @@ const Dashboard: React.FC = () => {
           <TabsContent value="analytics" className="space-y-6">
             <AnalyticsDashboard />
           </TabsContent>
+
+          <TabsContent value="settings" className="space-y-6">
+            <SettingsPanel />
+          </TabsContent>
         </Tabs>
       </div>
 
@@ -181,6 +242,8 @@ const Dashboard: React.FC = () => {
         file={selectedFile}
         open={!!selectedFile}
         onOpenChange={(open) => !open && setSelectedFile(null)}
+        focus={focusedPassage}
+        onTagsChange={handleOrganizationChange}
       />
     </div>
   );
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { useTags } from '@/hooks/useTags';
+import { tagApi, type Tag } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import TagBadge from './TagBadge';
+
+interface DocumentTagsEditorProps {
+  fileId: string;
+  onChange?: () => void;
+}
+
+const TAG_COLORS = ['#6366f1', '#0ea5e9', '#10b981', '#84cc16', '#f59e0b', '#f97316', '#ef4444', '#ec4899', '#8b5cf6', '#64748b'];
+
+/** The document's tags, with a picker that also creates new tags. */
+const DocumentTagsEditor: React.FC<DocumentTagsEditorProps> = ({ fileId, onChange }) => {
+  const [documentTags, setDocumentTags] = useState<Tag[]>([]);
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [newColor, setNewColor] = useState(TAG_COLORS[0]);
+  const { tags, reload } = useTags();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    tagApi.getDocumentTags(fileId)
+      .then(loaded => { if (!cancelled) setDocumentTags(loaded); })
+      .catch(error => console.error('Failed to load document tags:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [fileId]);
+
+  const showError = (description: string, error: unknown) => {
+    console.error(description, error);
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const addTag = async (tag: Tag) => {
+    try {
+      await tagApi.addTag(fileId, tag.id);
+      setDocumentTags(prev => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)));
+      onChange?.();
+    } catch (error) {
+      showError("Failed to add tag", error);
+    }
+  };
+
+  const removeTag = async (tag: Tag) => {
+    try {
+      await tagApi.removeTag(fileId, tag.id);
+      setDocumentTags(prev => prev.filter(item => item.id !== tag.id));
+      onChange?.();
+    } catch (error) {
+      showError("Failed to remove tag", error);
+    }
+  };
+
+  const handleSelect = (tag: Tag) => {
+    if (documentTags.some(item => item.id === tag.id)) removeTag(tag);
+    else addTag(tag);
+  };
+
+  const handleCreate = async () => {
+    const name = search.trim();
+    if (!name) return;
+
+    try {
+      const created = await tagApi.createTag({ name, color: newColor });
+      setSearch('');
+      // The next new tag gets a different color unless one is picked
+      setNewColor(TAG_COLORS[(TAG_COLORS.indexOf(newColor) + 1) % TAG_COLORS.length]);
+      await addTag(created);
+      reload();
+    } catch (error) {
+      showError("Failed to create tag", error);
+    }
+  };
+
+  const trimmedSearch = search.trim();
+  const canCreate = trimmedSearch !== '' && !tags.some(tag => tag.name.toLowerCase() === trimmedSearch.toLowerCase());
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {documentTags.map(tag => (
+        <TagBadge key={tag.id} tag={tag} onRemove={() => removeTag(tag)} />
+      ))}
+      {documentTags.length === 0 && <span className="text-sm text-muted-foreground">No tags yet</span>}
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-7">
+            <Plus className="h-3 w-3 mr-1" />
+            Tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Find or create a tag..." value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>No tags found</CommandEmpty>
+              {tags.length > 0 && (
+                <CommandGroup>
+                  {tags.map(tag => (
+                    <CommandItem key={tag.id} value={tag.name} onSelect={() => handleSelect(tag)}>
+                      <span className="h-2 w-2 rounded-full mr-2" style={{ backgroundColor: tag.color }} />
+                      <span className="flex-1 truncate">{tag.name}</span>
+                      {documentTags.some(item => item.id === tag.id) && <Check className="h-4 w-4" />}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {canCreate && (
+                <CommandGroup>
+                  <CommandItem value={`create ${trimmedSearch}`} onSelect={handleCreate} forceMount>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Create "{trimmedSearch}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+          <div className="flex flex-wrap items-center gap-1 border-t p-2">
+            <span className="mr-1 text-xs text-muted-foreground">New tag color</span>
+            {TAG_COLORS.map(color => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => setNewColor(color)}
+                className={cn("h-4 w-4 rounded-full", color === newColor && "ring-2 ring-ring ring-offset-1")}
+                style={{ backgroundColor: color }}
+                title={color}
+              />
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default DocumentTagsEditor;
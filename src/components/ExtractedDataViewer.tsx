@@ -1,9 +1,12 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
-import { Brain, FileText, Tag, TrendingUp, Clock } from 'lucide-react';
-import { fileApi } from '@/lib/api';
+import { Brain, FileText, Tag, TrendingUp, Clock, ListChecks } from 'lucide-react';
+import ExtractedFieldsForm from '@/components/ExtractedFieldsForm';
+import { fileApi, type ExtractedField } from '@/lib/api';
+import { getClassificationLabel } from '@/lib/classifications';
 
 interface ExtractedData {
   id: string;
@@ -12,43 +15,66 @@ interface ExtractedData {
   classification: string;
   confidence: number;
   keyPoints: string[];
+  keyPointSources?: Array<{ point: string; chunks: number[] }>;
   topics: string[];
   timestamp: string;
   metadata?: any;
+  fields: ExtractedField[];
   contentPreview?: string;
   analysisMethod?: string;
   fileSize?: number;
 }
 
+// Newest documents first, a page at a time
+const PAGE_SIZE = 25;
+
 const ExtractedDataViewer = () => {
   const [extractedData, setExtractedData] = useState<ExtractedData[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
 
   useEffect(() => {
-    loadExtractedData();
+    loadExtractedData(1);
   }, []);
 
-  const loadExtractedData = async () => {
+  const loadExtractedData = async (targetPage: number) => {
     try {
-      const files = await fileApi.getFiles();
+      if (targetPage > 1) setLoadingMore(true);
+      // Filtered in the query, so every page is full and total counts only these
+      const result = await fileApi.getFiles({
+        statuses: ['uploaded', 'reviewed'],
+        hasSummary: true,
+        sort: 'date',
+        page: targetPage,
+        limit: PAGE_SIZE,
+      });
+      const files = result.files;
+      const fieldsByFile = await fileApi.getExtractedFields(files.map(file => file.id));
       const processedFiles = files
-        .filter(file => file.status === 'uploaded' && file.summary)
         .map(file => ({
           id: file.id,
           filename: file.filename,
           summary: file.summary || '',
-          classification: file.classification || 'Unknown',
+          classification: getClassificationLabel(file.classification),
           confidence: file.confidence || 0,
-          keyPoints: file.entities?.key_points || [],
-          topics: file.entities?.topics || [],
+          keyPoints: file.keyPoints || [],
+          keyPointSources: file.entities?.key_point_sources,
+          topics: file.topics || [],
+          metadata: file.analysisMetadata,
+          fields: fieldsByFile[file.id] ?? [],
           timestamp: file.timestamp
         }));
       
-      setExtractedData(processedFiles);
+      setExtractedData(prev => targetPage > 1 ? [...prev, ...processedFiles] : processedFiles);
+      setPage(targetPage);
+      setHasMore(targetPage * PAGE_SIZE < result.total);
     } catch (error) {
       console.error('Failed to load extracted data:', error);
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
@@ -85,7 +111,7 @@ const ExtractedDataViewer = () => {
     );
   }
 
-  if (extractedData.length === 0) {
+  if (extractedData.length === 0 && !hasMore) {
     return (
       <div className="space-y-4">
         <div className="flex items-center gap-2 mb-6">
@@ -165,6 +191,21 @@ const ExtractedDataViewer = () => {
 
               <Separator />
 
+              {/* Typed fields from the document type's extraction schema */}
+              {data.fields.length > 0 && (
+                <>
+                  <div>
+                    <h4 className="font-medium mb-3 flex items-center gap-2">
+                      <ListChecks className="h-4 w-4" />
+                      {data.classification} Details
+                    </h4>
+                    <ExtractedFieldsForm fields={data.fields} idPrefix={data.id} />
+                  </div>
+
+                  <Separator />
+                </>
+              )}
+
               {/* Key Points */}
               {data.keyPoints.length > 0 && (
                 <div>
@@ -173,7 +214,14 @@ const ExtractedDataViewer = () => {
                     {data.keyPoints.map((point, index) => (
                       <li key={index} className="text-sm text-muted-foreground flex items-start gap-2">
                         <span className="w-1 h-1 rounded-full bg-primary mt-2 flex-shrink-0" />
-                        {point}
+                        <span>
+                          {point}
+                          {data.keyPointSources?.[index]?.chunks.length > 0 && (
+                            <span className="ml-2 text-xs text-muted-foreground/70">
+                              (section {data.keyPointSources[index].chunks.map(chunk => chunk + 1).join(', ')})
+                            </span>
+                          )}
+                        </span>
                       </li>
                     ))}
                   </ul>
@@ -197,6 +245,14 @@ const ExtractedDataViewer = () => {
           </Card>
         ))}
       </div>
+
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => loadExtractedData(page + 1)} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { ExtractedField } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+interface ExtractedFieldsFormProps {
+  fields: ExtractedField[];
+  idPrefix: string;
+}
+
+const formatValue = (field: ExtractedField) => {
+  if (Array.isArray(field.value)) return field.value.join(', ');
+  if (field.type === 'number' && typeof field.value === 'number') return field.value.toLocaleString();
+  if (field.type === 'date' && typeof field.value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(field.value)) {
+    return new Date(`${field.value}T00:00:00`).toLocaleDateString();
+  }
+  return String(field.value);
+};
+
+const getConfidenceClass = (confidence: number) => {
+  if (confidence >= 0.8) return 'border-green-500/40 text-green-700';
+  if (confidence >= 0.6) return 'border-yellow-500/40 text-yellow-700';
+  return 'border-red-500/40 text-red-700';
+};
+
+/** Read-only form of the typed fields extracted for a document's type. */
+const ExtractedFieldsForm: React.FC<ExtractedFieldsFormProps> = ({ fields, idPrefix }) => (
+  <div className="grid gap-3 sm:grid-cols-2">
+    {fields.map(field => (
+      <div key={field.key} className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor={`${idPrefix}-${field.key}`} className="text-xs text-muted-foreground">
+            {field.label}
+          </Label>
+          {field.confidence != null && (
+            <Badge
+              variant="outline"
+              className={cn('text-[10px] px-1.5 py-0', getConfidenceClass(field.confidence))}
+              title="Model confidence for this field"
+            >
+              {Math.round(field.confidence * 100)}%
+            </Badge>
+          )}
+        </div>
+        <Input
+          id={`${idPrefix}-${field.key}`}
+          value={formatValue(field)}
+          readOnly
+          className="h-9 text-sm bg-muted/40"
+        />
+      </div>
+    ))}
+  </div>
+);
+
+export default ExtractedFieldsForm;
@@ -5,9 +5,11 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
-import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useDocumentTypes } from '@/hooks/useDocumentTypes';
 import { fileApi, type FileUpload, type FeedbackData } from '@/lib/api';
+import { getClassificationLabel } from '@/lib/classifications';
 
 interface FeedbackFormProps {
   file: FileUpload;
@@ -21,6 +23,7 @@ const FeedbackForm: React.FC<FeedbackFormProps> = ({ file, open, onOpenChange })
   const [reason, setReason] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
+  const { documentTypes } = useDocumentTypes();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -48,7 +51,7 @@ const FeedbackForm: React.FC<FeedbackFormProps> = ({ file, open, onOpenChange })
       
       toast({
         title: "Feedback Submitted",
-        description: "Thank you for your feedback! It will help improve our AI models.",
+        description: "Thank you! The correction has been applied to this document.",
       });
       
       // Reset form
@@ -98,7 +101,10 @@ const FeedbackForm: React.FC<FeedbackFormProps> = ({ file, open, onOpenChange })
             <Label className="text-sm font-medium">What would you like to correct?</Label>
             <RadioGroup 
               value={feedbackType} 
-              onValueChange={(value) => setFeedbackType(value as 'summary' | 'classification')}
+              onValueChange={(value) => {
+                setFeedbackType(value as 'summary' | 'classification');
+                setCorrectValue('');
+              }}
             >
               <div className="flex items-center space-x-2">
                 <RadioGroupItem value="summary" id="summary" />
@@ -124,7 +130,7 @@ const FeedbackForm: React.FC<FeedbackFormProps> = ({ file, open, onOpenChange })
               <p className="text-sm">
                 {feedbackType === 'summary' 
                   ? (file.summary || 'No summary available') 
-                  : (file.classification || 'No classification available')
+                  : (file.classification ? getClassificationLabel(file.classification) : 'No classification available')
                 }
               </p>
             </div>
@@ -145,13 +151,18 @@ const FeedbackForm: React.FC<FeedbackFormProps> = ({ file, open, onOpenChange })
                 required
               />
             ) : (
-              <Input
-                id="correctValue"
-                placeholder="e.g., Invoice, Contract, Letter..."
-                value={correctValue}
-                onChange={(e) => setCorrectValue(e.target.value)}
-                required
-              />
+              <Select value={correctValue} onValueChange={setCorrectValue}>
+                <SelectTrigger id="correctValue">
+                  <SelectValue placeholder="Select the correct classification..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {documentTypes.map(type => (
+                    <SelectItem key={type.id} value={type.name}>
+                      {getClassificationLabel(type.name)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             )}
           </div>
 
@@ -1,36 +1,59 @@
-import React, { useState, useEffect } from 'react';
-import { X, FileText, Clock, Tag, Download, MessageSquare, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { X, FileText, Clock, Tag, Download, MessageSquare, AlertCircle, ShieldAlert } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { fileApi, type FileUpload, type FileDetails } from '@/lib/api';
+import { fileApi, type FileUpload, type FileDetails, type PiiSpan } from '@/lib/api';
+import { getClassificationLabel } from '@/lib/classifications';
+import { exportRedactedPdf, exportRedactedText, PII_TYPE_LABELS, redactText } from '@/lib/redaction';
+import DocumentTagsEditor from './DocumentTagsEditor';
+import ExtractedFieldsForm from './ExtractedFieldsForm';
 import FeedbackForm from './FeedbackForm';
+import LineItemsTable from './LineItemsTable';
 
 interface FileDetailsModalProps {
   file: FileUpload | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  // Passage to open at, as offsets into the extracted text (e.g. a citation)
+  focus?: { start: number; end: number } | null;
+  onTagsChange?: () => void;
 }
 
 const FileDetailsModal: React.FC<FileDetailsModalProps> = ({ 
   file, 
   open, 
-  onOpenChange 
+  onOpenChange,
+  focus = null,
+  onTagsChange,
 }) => {
   const [fileDetails, setFileDetails] = useState<FileDetails | null>(null);
   const [loading, setLoading] = useState(false);
   const [showFeedback, setShowFeedback] = useState(false);
+  const [showRedacted, setShowRedacted] = useState(false);
+  const [activeTab, setActiveTab] = useState('overview');
+  const focusRef = useRef<HTMLElement>(null);
   const { toast } = useToast();
 
   useEffect(() => {
     if (file && open) {
+      setActiveTab(focus ? 'analysis' : 'overview');
+      setShowRedacted(false);
       loadFileDetails();
     }
-  }, [file, open]);
+  }, [file, open, focus]);
+
+  useEffect(() => {
+    if (!loading && activeTab === 'analysis') {
+      focusRef.current?.scrollIntoView({ block: 'center' });
+    }
+  }, [loading, activeTab, fileDetails, focus]);
 
   const loadFileDetails = async () => {
     if (!file) return;
@@ -51,12 +74,30 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
     }
   };
 
+  const handleDownload = async () => {
+    if (!file) return;
+
+    try {
+      const url = await fileApi.getDownloadUrl(file.id);
+      window.location.assign(url);
+    } catch (error) {
+      console.error('Failed to download file:', error);
+      toast({
+        title: "Error",
+        description: "Failed to download file",
+        variant: "destructive",
+      });
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'uploaded':
         return <Badge variant="outline" className="bg-success/10 text-success border-success/20">🟢 Uploaded</Badge>;
       case 'processing':
         return <Badge variant="outline" className="bg-processing/10 text-processing border-processing/20">🟡 Processing</Badge>;
+      case 'reviewed':
+        return <Badge variant="outline" className="bg-primary/10 text-primary border-primary/20">🔵 Reviewed</Badge>;
       case 'failed':
         return <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">🔴 Failed</Badge>;
       default:
@@ -105,6 +146,18 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
 
   if (!file) return null;
 
+  const redactedContent = fileDetails?.content ? redactText(fileDetails.content, fileDetails.piiSpans) : '';
+  // Offsets refer to the original text, so nothing is highlighted while redacted
+  const focusedPassage = focus && fileDetails?.content && !showRedacted && focus.start < fileDetails.content.length
+    ? focus
+    : null;
+  const piiCounts = Object.entries(
+    (fileDetails?.piiSpans ?? []).reduce<Record<string, number>>((counts, span) => {
+      counts[span.type] = (counts[span.type] ?? 0) + 1;
+      return counts;
+    }, {})
+  ) as [PiiSpan['type'], number][];
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
@@ -124,7 +177,7 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
             ))}
           </div>
         ) : (
-          <Tabs defaultValue="overview" className="w-full">
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
             <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="analysis">AI Analysis</TabsTrigger>
@@ -139,7 +192,7 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
                     <span>File Information</span>
                     <div className="flex gap-2">
                       {getStatusBadge(fileDetails?.status || file.status)}
-                      <Button variant="outline" size="sm">
+                      <Button variant="outline" size="sm" onClick={handleDownload}>
                         <Download className="h-4 w-4 mr-2" />
                         Download
                       </Button>
@@ -166,18 +219,85 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
                     </div>
                   </div>
                   
-                  {fileDetails?.processingTime && (
+                  {fileDetails?.processingTime !== undefined && (
                     <div>
                       <p className="text-sm font-medium text-muted-foreground">Processing Time</p>
                       <p className="text-sm flex items-center gap-1">
                         <Clock className="h-3 w-3" />
-                        {fileDetails.processingTime}s
+                        {fileDetails.processingTime.toFixed(1)}s
+                        {fileDetails.providerLatencyMs !== undefined && (
+                          <span className="text-muted-foreground">
+                            ({(fileDetails.providerLatencyMs / 1000).toFixed(1)}s waiting on the model)
+                          </span>
+                        )}
                       </p>
                     </div>
                   )}
                 </CardContent>
               </Card>
               
+              {/* Tags */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Tag className="h-5 w-5 text-primary" />
+                    Tags
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <DocumentTagsEditor fileId={file.id} onChange={onTagsChange} />
+                </CardContent>
+              </Card>
+
+              {/* Personal Data */}
+              {fileDetails?.content && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <ShieldAlert className="h-5 w-5 text-warning" />
+                      Personal Data
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {!fileDetails.piiScanned ? (
+                      <p className="text-sm text-muted-foreground">
+                        Not scanned for personal data yet. Redacted exports become available once it has been.
+                      </p>
+                    ) : piiCounts.length > 0 ? (
+                      <div className="flex flex-wrap gap-2">
+                        {piiCounts.map(([type, count]) => (
+                          <Badge key={type} variant="outline">
+                            {PII_TYPE_LABELS[type]}: {count}
+                          </Badge>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No personal data detected.</p>
+                    )}
+                    <div className="flex gap-3">
+                      <Button
+                        variant="outline"
+                        onClick={() => exportRedactedText(file.filename, redactedContent)}
+                        disabled={!fileDetails.piiScanned}
+                        className="flex-1"
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        Redacted Text
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => exportRedactedPdf(file.filename, redactedContent)}
+                        disabled={!fileDetails.piiScanned}
+                        className="flex-1"
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        Redacted PDF
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Quick Actions */}
               <Card>
                 <CardContent className="pt-6">
@@ -190,7 +310,7 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
                       <MessageSquare className="h-4 w-4 mr-2" />
                       Provide Feedback
                     </Button>
-                    <Button variant="outline" className="flex-1">
+                    <Button variant="outline" onClick={handleDownload} className="flex-1">
                       <Download className="h-4 w-4 mr-2" />
                       Download File
                     </Button>
@@ -245,7 +365,7 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
                     <div className="flex items-center gap-2">
                       <Tag className="h-4 w-4" />
                       <Badge variant="secondary" className="text-sm">
-                        {file.classification}
+                        {getClassificationLabel(file.classification)}
                       </Badge>
                     </div>
                     {file.confidence && (
@@ -253,21 +373,91 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
                         Confidence: {Math.round(file.confidence * 100)}%
                       </p>
                     )}
+                    {fileDetails?.ocrConfidence !== undefined && (
+                      <p className="text-xs text-muted-foreground">
+                        OCR Confidence: {Math.round(fileDetails.ocrConfidence * 100)}%
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Key Points and Topics */}
+              {((fileDetails?.keyPoints?.length ?? 0) > 0 || (fileDetails?.topics?.length ?? 0) > 0) && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Key Points</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {fileDetails.keyPoints.length > 0 && (
+                      <ul className="space-y-1">
+                        {fileDetails.keyPoints.map((point, index) => (
+                          <li key={index} className="text-sm flex items-start gap-2">
+                            <span className="w-1 h-1 rounded-full bg-primary mt-2 flex-shrink-0" />
+                            <span>{point}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {fileDetails.topics.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {fileDetails.topics.map((topic, index) => (
+                          <Badge key={index} variant="outline" className="text-xs">
+                            {topic}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               )}
 
-              {/* Content Preview */}
+              {/* Line Items */}
+              {fileDetails?.lineItems && fileDetails.lineItems.items.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                      <span>Line Items</span>
+                      <span className="text-xs font-normal text-muted-foreground">
+                        {fileDetails.lineItems.items.length} row(s)
+                      </span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <LineItemsTable table={fileDetails.lineItems} />
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Extracted Text */}
               {fileDetails?.content && (
                 <Card>
                   <CardHeader>
-                    <CardTitle>Content Preview</CardTitle>
+                    <CardTitle className="flex items-center justify-between">
+                      <span>Extracted Text</span>
+                      <span className="flex items-center gap-3 text-xs font-normal text-muted-foreground">
+                        {fileDetails.piiSpans.length > 0 && (
+                          <span className="flex items-center gap-2">
+                            <Switch id="show-redacted" checked={showRedacted} onCheckedChange={setShowRedacted} />
+                            <Label htmlFor="show-redacted" className="text-xs font-normal">Redact personal data</Label>
+                          </span>
+                        )}
+                        {fileDetails.content.length.toLocaleString()} characters
+                      </span>
+                    </CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="bg-muted p-4 rounded-lg max-h-64 overflow-y-auto">
+                    <div className="bg-muted p-4 rounded-lg max-h-96 overflow-y-auto">
                       <pre className="text-sm whitespace-pre-wrap font-mono">
-                        {fileDetails.content.substring(0, 1000)}
-                        {fileDetails.content.length > 1000 && '...'}
+                        {focusedPassage ? (
+                          <>
+                            {fileDetails.content.slice(0, focusedPassage.start)}
+                            <mark ref={focusRef} className="bg-warning/30 text-foreground rounded-sm">
+                              {fileDetails.content.slice(focusedPassage.start, focusedPassage.end)}
+                            </mark>
+                            {fileDetails.content.slice(focusedPassage.end)}
+                          </>
+                        ) : showRedacted ? redactedContent : fileDetails.content}
                       </pre>
                     </div>
                   </CardContent>
@@ -292,6 +482,34 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
                     </div>
                   </div>
                   
+                  {fileDetails?.fields.length > 0 && (
+                    <>
+                      <Separator />
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground mb-3">
+                          {getClassificationLabel(fileDetails.classification)} Details
+                        </p>
+                        <ExtractedFieldsForm fields={fileDetails.fields} idPrefix={`details-${file.id}`} />
+                      </div>
+                    </>
+                  )}
+
+                  {fileDetails?.analysisMetadata && Object.keys(fileDetails.analysisMetadata).length > 0 && (
+                    <>
+                      <Separator />
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground mb-2">
+                          Extracted Metadata
+                        </p>
+                        <div className="bg-muted p-4 rounded-lg">
+                          <pre className="text-xs">
+                            {JSON.stringify(fileDetails.analysisMetadata, null, 2)}
+                          </pre>
+                        </div>
+                      </div>
+                    </>
+                  )}
+
                   {fileDetails?.metadata && (
                     <>
                       <Separator />
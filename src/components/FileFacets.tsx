@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { CalendarIcon, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { ConfidenceBand, FacetCount, FacetCounts, ReviewState } from '@/lib/api';
+import { getClassificationLabel } from '@/lib/classifications';
+import { DATE_PERIODS, type DatePeriod, type FileListFilters } from '@/hooks/useFileFilterParams';
+import { useTags } from '@/hooks/useTags';
+
+interface FileFacetsProps {
+  counts: FacetCounts | null;
+  filters: FileListFilters;
+  onChange: (changes: Partial<FileListFilters>) => void;
+  onClear: () => void;
+}
+
+const TOPICS_SHOWN = 10;
+
+const CONFIDENCE_LABELS: Record<string, string> = {
+  high: 'High (90% and up)',
+  medium: 'Medium (70–89%)',
+  low: 'Low (below 70%)',
+};
+
+const REVIEW_LABELS: Record<string, string> = {
+  reviewed: 'Reviewed',
+  needs_review: 'Needs review',
+  unreviewed: 'Not reviewed',
+};
+
+const PERIOD_LABELS: Record<DatePeriod, string> = {
+  last_7_days: 'Last 7 days',
+  last_30_days: 'Last 30 days',
+  this_month: 'This month',
+  this_quarter: 'This quarter',
+  this_year: 'This year',
+};
+
+// Provider name, with fallback runs marked (e.g. "openai_fallback")
+const getMethodLabel = (method: string) =>
+  method.endsWith('_fallback') ? `${method.replace(/_fallback$/, '')} (fallback)` : method;
+
+const toggle = <T extends string>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+interface FacetGroupProps {
+  title: string;
+  counts: FacetCount[];
+  selected: string[];
+  getLabel?: (value: string) => React.ReactNode;
+  onToggle: (value: string) => void;
+  limit?: number;
+  hint?: string;
+}
+
+const FacetGroup: React.FC<FacetGroupProps> = ({ title, counts, selected, getLabel = value => value, onToggle, limit, hint }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  // Selected values stay listed even when the other filters leave them no matches
+  const values = [
+    ...counts,
+    ...selected.filter(value => !counts.some(count => count.value === value)).map(value => ({ value, count: 0 })),
+  ];
+  const shown = limit && !expanded ? values.slice(0, limit) : values;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold">
+        {title}
+        {hint && <span className="ml-2 text-xs font-normal text-muted-foreground">{hint}</span>}
+      </h4>
+      {values.length === 0 && <p className="text-xs text-muted-foreground">No values</p>}
+      {shown.map(({ value, count }) => (
+        <label key={value} className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox checked={selected.includes(value)} onCheckedChange={() => onToggle(value)} />
+          <span className="flex-1 truncate">{getLabel(value)}</span>
+          <span className="text-xs text-muted-foreground">{count}</span>
+        </label>
+      ))}
+      {limit && values.length > limit && (
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setExpanded(!expanded)}>
+          {expanded ? 'Show fewer' : `Show all ${values.length}`}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+// Applied on blur or Enter rather than on every keystroke
+const AmountInput: React.FC<{
+  value: number | null;
+  placeholder: string;
+  onCommit: (value: number | null) => void;
+}> = ({ value, placeholder, onCommit }) => (
+  <Input
+    key={value ?? ''}
+    type="number"
+    min={0}
+    defaultValue={value ?? ''}
+    placeholder={placeholder}
+    className="h-8"
+    onBlur={(e) => {
+      const next = e.target.value.trim() === '' ? null : Number(e.target.value);
+      if (next !== value && (next === null || Number.isFinite(next))) onCommit(next);
+    }}
+    onKeyDown={(e) => {
+      if (e.key === 'Enter') e.currentTarget.blur();
+    }}
+  />
+);
+
+/** Facet panels for the file list; every selection narrows the list further. */
+const FileFacets: React.FC<FileFacetsProps> = ({ counts, filters, onChange, onClear }) => {
+  const { tags } = useTags();
+
+  const getTagLabel = (tagId: string) => {
+    const tag = tags.find(item => item.id === tagId);
+    if (!tag) return 'Unknown tag';
+    return (
+      <span className="inline-flex items-center gap-2">
+        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+        {tag.name}
+      </span>
+    );
+  };
+
+  const range: DateRange | undefined = filters.from
+    ? { from: parseISO(filters.from), to: filters.to ? parseISO(filters.to) : undefined }
+    : undefined;
+
+  const handleRangeSelect = (selected: DateRange | undefined) => {
+    onChange({
+      period: null,
+      from: selected?.from ? format(selected.from, 'yyyy-MM-dd') : null,
+      to: selected?.to ? format(selected.to, 'yyyy-MM-dd') : selected?.from ? format(selected.from, 'yyyy-MM-dd') : null,
+    });
+  };
+
+  const rangeLabel = filters.period
+    ? PERIOD_LABELS[filters.period]
+    : filters.from
+    ? filters.to && filters.to !== filters.from
+      ? `${format(parseISO(filters.from), 'MMM d, yyyy')} – ${format(parseISO(filters.to), 'MMM d, yyyy')}`
+      : format(parseISO(filters.from), 'MMM d, yyyy')
+    : 'Any time';
+
+  return (
+    <div className="rounded-2xl border border-primary/20 bg-background/50 p-6 space-y-6">
+      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+        <FacetGroup
+          title="Classification"
+          counts={counts?.classification ?? []}
+          selected={filters.classifications}
+          getLabel={getClassificationLabel}
+          onToggle={value => onChange({ classifications: toggle(filters.classifications, value) })}
+        />
+
+        <FacetGroup
+          title="Topics"
+          hint="all selected"
+          counts={counts?.topic ?? []}
+          selected={filters.topics}
+          onToggle={value => onChange({ topics: toggle(filters.topics, value) })}
+          limit={TOPICS_SHOWN}
+        />
+
+        <FacetGroup
+          title="Tags"
+          hint="all selected"
+          counts={counts?.tag ?? []}
+          selected={filters.tagIds}
+          getLabel={getTagLabel}
+          onToggle={value => onChange({ tagIds: toggle(filters.tagIds, value) })}
+          limit={TOPICS_SHOWN}
+        />
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Uploaded</h4>
+          <div className="flex items-center gap-2">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="justify-start font-normal">
+                  <CalendarIcon className="h-4 w-4 mr-2" />
+                  {rangeLabel}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <div className="flex">
+                  <div className="flex flex-col gap-1 p-3 border-r">
+                    {DATE_PERIODS.map(period => (
+                      <Button
+                        key={period}
+                        variant={filters.period === period ? 'secondary' : 'ghost'}
+                        size="sm"
+                        className="justify-start"
+                        onClick={() => onChange({ period, from: null, to: null })}
+                      >
+                        {PERIOD_LABELS[period]}
+                      </Button>
+                    ))}
+                  </div>
+                  <Calendar mode="range" selected={range} onSelect={handleRangeSelect} numberOfMonths={2} initialFocus />
+                </div>
+              </PopoverContent>
+            </Popover>
+            {(filters.from || filters.period) && (
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => onChange({ period: null, from: null, to: null })} title="Any time">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">
+            Amount
+            <span className="ml-2 text-xs font-normal text-muted-foreground">invoice total or contract value</span>
+          </h4>
+          <div className="flex items-center gap-2">
+            <AmountInput value={filters.minAmount} placeholder="Min" onCommit={minAmount => onChange({ minAmount })} />
+            <span className="text-muted-foreground">–</span>
+            <AmountInput value={filters.maxAmount} placeholder="Max" onCommit={maxAmount => onChange({ maxAmount })} />
+          </div>
+        </div>
+
+        <FacetGroup
+          title="Confidence"
+          counts={counts?.confidence ?? []}
+          selected={filters.confidenceBands}
+          getLabel={value => CONFIDENCE_LABELS[value] ?? value}
+          onToggle={value => onChange({ confidenceBands: toggle(filters.confidenceBands, value as ConfidenceBand) })}
+        />
+
+        <FacetGroup
+          title="Analysis Method"
+          counts={counts?.method ?? []}
+          selected={filters.analysisMethods}
+          getLabel={getMethodLabel}
+          onToggle={value => onChange({ analysisMethods: toggle(filters.analysisMethods, value) })}
+        />
+
+        <FacetGroup
+          title="Review"
+          counts={counts?.review ?? []}
+          selected={filters.reviewStates}
+          getLabel={value => REVIEW_LABELS[value] ?? value}
+          onToggle={value => onChange({ reviewStates: toggle(filters.reviewStates, value as ReviewState) })}
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button variant="ghost" size="sm" onClick={onClear}>
+          Clear filters
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default FileFacets;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Search, Filter, Trash2, Eye, MoreHorizontal, FileText, Image, File, Download, Calendar, Star, Sparkles, Grid3X3, List, SortAsc, Archive, Brain, Zap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -6,35 +6,90 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Pagination, PaginationContent, PaginationEllipsis, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from '@/components/ui/pagination';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { useToast } from '@/hooks/use-toast';
-import { fileApi, type FileUpload } from '@/lib/api';
+import { countActiveFacets, toFileFilters, useFileFilterParams } from '@/hooks/useFileFilterParams';
+import { fileApi, SNIPPET_HIGHLIGHT_END, SNIPPET_HIGHLIGHT_START, type FacetCounts, type FileFilters, type FileSort, type FileUpload, type SemanticMatch } from '@/lib/api';
+import { getClassificationLabel } from '@/lib/classifications';
+import { DOCUMENT_DRAG_TYPE } from '@/lib/collections';
 import { cn } from '@/lib/utils';
+import FileFacets from './FileFacets';
+import TagBadge from './TagBadge';
+
+const SEMANTIC_MIN_QUERY_CHARS = 3;
+const SEMANTIC_SEARCH_DEBOUNCE_MS = 400;
+const PAGE_SIZE = 24;
+// Document changes arrive in bursts while a batch is analyzed
+const REALTIME_REFRESH_DELAY_MS = 1000;
+
+// First, last and the pages around the current one; null marks a gap
+const getPageNumbers = (current: number, totalPages: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let pageNumber = 1; pageNumber <= totalPages; pageNumber++) {
+    if (pageNumber === 1 || pageNumber === totalPages || Math.abs(pageNumber - current) <= 1) {
+      pages.push(pageNumber);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
 
 interface FileListProps {
   refreshTrigger?: number;
+  // Bumped when tags or folders change outside the list; refreshes in place
+  organizationVersion?: number;
   onFileSelect?: (file: FileUpload) => void;
 }
 
-const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) => {
+const FileList: React.FC<FileListProps> = ({ refreshTrigger, organizationVersion, onFileSelect }) => {
   const [files, setFiles] = useState<FileUpload[]>([]);
+  // Matching documents on the server, not just the loaded pages
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [realtimeVersion, setRealtimeVersion] = useState(0);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const [sortBy, setSortBy] = useState<'name' | 'date' | 'size' | 'confidence'>('date');
+  // Best passage per document for the current semantic query; null while idle
+  const [semanticMatches, setSemanticMatches] = useState<Map<string, SemanticMatch> | null>(null);
+  const [semanticLoading, setSemanticLoading] = useState(false);
+  // Responses to superseded requests are dropped
+  const requestRef = useRef(0);
+  const loadMoreRef = useRef<() => void>(() => {});
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const realtimeTimer = useRef<ReturnType<typeof setTimeout>>();
+  const [facetCounts, setFacetCounts] = useState<FacetCounts | null>(null);
   const { toast } = useToast();
+  // Filters live in the URL so a filtered view can be shared
+  const { filters, updateFilters, clearFacets } = useFileFilterParams();
+  const [showFacets, setShowFacets] = useState(() => countActiveFacets(filters) > 0);
+
+  const { search: searchQuery, searchMode, sort: sortBy } = filters;
+  const activeFacets = countActiveFacets(filters);
+  const fileFilters: FileFilters = {
+    ...toFileFilters(filters),
+    fileIds: semanticMatches ? [...semanticMatches.keys()] : undefined,
+  };
+  // Stable dependency for the effects; the filter arrays are rebuilt every render
+  const fileFiltersKey = JSON.stringify(fileFilters);
+  const hasMore = files.length < total;
+  const totalPages = Math.ceil(total / PAGE_SIZE);
+
+  const fetchFiles = (targetPage: number, limit = PAGE_SIZE) =>
+    fileApi.getFiles({ ...fileFilters, page: targetPage, limit });
 
-  const loadFiles = async () => {
+  // Shows one page; in grid mode page 1 restarts the infinite scroll
+  const loadFiles = async (targetPage: number) => {
+    const requestId = ++requestRef.current;
     try {
       setLoading(true);
-      const filesData = await fileApi.getFiles({
-        search: searchQuery || undefined,
-        status: statusFilter !== 'all' ? statusFilter : undefined,
-        type: typeFilter !== 'all' ? typeFilter : undefined,
-      });
-      setFiles(filesData);
+      const result = await fetchFiles(targetPage);
+      if (requestId !== requestRef.current) return;
+      setFiles(result.files);
+      setTotal(result.total);
+      setPage(targetPage);
     } catch (error) {
       console.error('Failed to load files:', error);
       toast({
@@ -43,13 +98,107 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      if (requestId === requestRef.current) setLoading(false);
+    }
+  };
+
+  // Grid mode: appends the next page when the end of the grid scrolls into view
+  const loadMore = async () => {
+    if (loading || loadingMore || !hasMore) return;
+    const requestId = requestRef.current;
+    try {
+      setLoadingMore(true);
+      const result = await fetchFiles(page + 1);
+      if (requestId !== requestRef.current) return;
+      setFiles(prev => [...prev, ...result.files.filter(file => !prev.some(loaded => loaded.id === file.id))]);
+      setTotal(result.total);
+      setPage(page + 1);
+    } catch (error) {
+      console.error('Failed to load more files:', error);
+    } finally {
+      setLoadingMore(false);
     }
   };
+  loadMoreRef.current = loadMore;
+
+  // Refetches what is on screen without resetting the scroll position
+  const refreshFiles = async () => {
+    const requestId = ++requestRef.current;
+    try {
+      const result = viewMode === 'grid' ? await fetchFiles(1, page * PAGE_SIZE) : await fetchFiles(page);
+      if (requestId !== requestRef.current) return;
+      setFiles(result.files);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Failed to refresh files:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadFiles(1);
+  }, [refreshTrigger, fileFiltersKey, viewMode]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fileApi.getFacetCounts(JSON.parse(fileFiltersKey))
+      .then(counts => { if (!cancelled) setFacetCounts(counts); })
+      .catch(error => console.error('Failed to load facet counts:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshTrigger, fileFiltersKey, realtimeVersion]);
+
+  useEffect(() => {
+    if (realtimeVersion > 0) refreshFiles();
+  }, [realtimeVersion]);
 
   useEffect(() => {
-    loadFiles();
-  }, [refreshTrigger, searchQuery, statusFilter, typeFilter]);
+    if (organizationVersion) setRealtimeVersion(version => version + 1);
+  }, [organizationVersion]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (viewMode !== 'grid' || !sentinel) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMoreRef.current();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [viewMode, hasMore, loading, files.length]);
+
+  // Semantic queries go to the embedding index once typing pauses
+  useEffect(() => {
+    if (searchMode !== 'semantic' || searchQuery.trim().length < SEMANTIC_MIN_QUERY_CHARS) {
+      setSemanticMatches(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setSemanticLoading(true);
+        const matches = await fileApi.semanticSearch(searchQuery.trim());
+        if (!cancelled) setSemanticMatches(new Map(matches.map(match => [match.fileId, match])));
+      } catch (error) {
+        console.error('Semantic search failed:', error);
+        if (!cancelled) {
+          toast({
+            title: "Error",
+            description: "Semantic search is unavailable right now",
+            variant: "destructive",
+          });
+        }
+      } finally {
+        if (!cancelled) setSemanticLoading(false);
+      }
+    }, SEMANTIC_SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchMode, searchQuery, toast]);
 
   // Add real-time subscription
   useEffect(() => {
@@ -63,50 +212,67 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
           table: 'documents'
         },
         () => {
-          // Reload files when any change occurs
-          loadFiles();
+          // Reload the visible files (and facet counts) once changes settle
+          clearTimeout(realtimeTimer.current);
+          realtimeTimer.current = setTimeout(() => setRealtimeVersion(version => version + 1), REALTIME_REFRESH_DELAY_MS);
         }
       )
       .subscribe();
 
     return () => {
+      clearTimeout(realtimeTimer.current);
       supabase.removeChannel(channel);
     };
   }, []);
 
-  const filteredFiles = useMemo(() => {
-    return files.filter(file => {
-      const matchesSearch = !searchQuery || 
-        file.filename.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        file.classification?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        file.summary?.toLowerCase().includes(searchQuery.toLowerCase());
-      
-      const matchesStatus = statusFilter === 'all' || file.status === statusFilter;
-      
-      const matchesType = typeFilter === 'all' || 
-        (typeFilter === 'pdf' && file.type?.includes('pdf')) ||
-        (typeFilter === 'doc' && (file.type?.includes('word') || file.type?.includes('document'))) ||
-        (typeFilter === 'image' && file.type?.startsWith('image/'));
-      
-      return matchesSearch && matchesStatus && matchesType;
-    });
-  }, [files, searchQuery, statusFilter, typeFilter]);
-
+  // Filtering and sorting happen in getFiles; semantic matches (at most one
+  // page) are ranked by similarity regardless of the sort choice
   const sortedFiles = useMemo(() => {
-    const sorted = [...filteredFiles];
-    switch (sortBy) {
-      case 'name':
-        return sorted.sort((a, b) => a.filename.localeCompare(b.filename));
-      case 'date':
-        return sorted.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-      case 'size':
-        return sorted.sort((a, b) => b.size - a.size);
-      case 'confidence':
-        return sorted.sort((a, b) => (b.confidence || 0) - (a.confidence || 0));
-      default:
-        return sorted;
-    }
-  }, [filteredFiles, sortBy]);
+    if (!semanticMatches) return files;
+    return [...files].sort((a, b) => (semanticMatches.get(b.id)?.similarity ?? 0) - (semanticMatches.get(a.id)?.similarity ?? 0));
+  }, [files, semanticMatches]);
+
+  const renderSemanticMatch = (file: FileUpload) => {
+    const match = semanticMatches?.get(file.id);
+    if (!match) return null;
+    return (
+      <div className="rounded-lg border border-primary/20 bg-primary/5 p-2 text-xs space-y-1">
+        <div className="flex items-center gap-2 text-primary font-medium">
+          <Brain className="h-3 w-3" />
+          {Math.round(match.similarity * 100)}% match{match.page != null && ` · page ${match.page}`}
+        </div>
+        <p className="text-muted-foreground line-clamp-3">{match.passage}</p>
+      </div>
+    );
+  };
+
+  const renderSearchSnippet = (file: FileUpload) => {
+    if (searchMode !== 'keyword' || !file.searchSnippet) return null;
+    const [lead, ...hits] = file.searchSnippet.split(SNIPPET_HIGHLIGHT_START);
+    return (
+      <p className="rounded-lg border border-border/50 bg-muted/30 p-2 text-xs text-muted-foreground line-clamp-3">
+        {lead}
+        {hits.map((part, index) => {
+          const [highlighted, rest] = part.split(SNIPPET_HIGHLIGHT_END);
+          return (
+            <React.Fragment key={index}>
+              <mark className="bg-warning/30 text-foreground rounded-sm">{highlighted}</mark>
+              {rest}
+            </React.Fragment>
+          );
+        })}
+      </p>
+    );
+  };
+
+  const renderTags = (file: FileUpload) => {
+    if (!file.tags?.length) return null;
+    return (
+      <div className="flex flex-wrap gap-1">
+        {file.tags.map(tag => <TagBadge key={tag.id} tag={tag} />)}
+      </div>
+    );
+  };
 
   const getFileIcon = (file: FileUpload) => {
     if (file.type?.includes('pdf')) return <FileText className="h-6 w-6" />;
@@ -118,6 +284,7 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
     try {
       await fileApi.deleteFile(fileId);
       setFiles(prev => prev.filter(f => f.id !== fileId));
+      setTotal(prev => Math.max(prev - 1, 0));
       toast({
         title: "Success",
         description: "File deleted successfully",
@@ -132,6 +299,20 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
     }
   };
 
+  const handleDownloadFile = async (fileId: string) => {
+    try {
+      const url = await fileApi.getDownloadUrl(fileId);
+      window.location.assign(url);
+    } catch (error) {
+      console.error('Failed to download file:', error);
+      toast({
+        title: "Error",
+        description: "Failed to download file",
+        variant: "destructive",
+      });
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'uploaded':
@@ -148,6 +329,13 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
             <span className="text-warning font-medium text-xs">Processing</span>
           </div>
         );
+      case 'reviewed':
+        return (
+          <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-gradient-to-r from-primary/20 to-primary/10 border border-primary/30">
+            <div className="w-2 h-2 rounded-full bg-primary"></div>
+            <span className="text-primary font-medium text-xs">Reviewed</span>
+          </div>
+        );
       case 'failed':
         return (
           <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-gradient-to-r from-destructive/20 to-destructive/10 border border-destructive/30">
@@ -275,7 +463,7 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
             <div className="flex items-center gap-3">
               <Badge variant="secondary" className="px-4 py-2 text-lg bg-primary/10 text-primary border-primary/30">
                 <Brain className="h-4 w-4 mr-2" />
-                {sortedFiles.length} files
+                {total} files
               </Badge>
               
               <div className="flex items-center bg-muted/30 rounded-xl p-1">
@@ -301,18 +489,30 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
           
           {/* Enhanced Search and Filters */}
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-4">
-            <div className="lg:col-span-5 relative">
+            <div className="lg:col-span-3 relative">
               <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-muted-foreground h-5 w-5" />
               <Input
-                placeholder="🔍 Search files, summaries, classifications..."
+                placeholder={searchMode === 'semantic' ? "Describe what you're looking for..." : "🔍 Search files, summaries, classifications..."}
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-12 h-12 text-lg rounded-2xl border-primary/20 bg-background/50 backdrop-blur-sm"
+                onChange={(e) => updateFilters({ search: e.target.value })}
+                className="pl-12 pr-12 h-12 text-lg rounded-2xl border-primary/20 bg-background/50 backdrop-blur-sm"
               />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => updateFilters({ searchMode: searchMode === 'semantic' ? 'keyword' : 'semantic' })}
+                className={cn(
+                  "absolute right-2 top-1/2 -translate-y-1/2 h-8 w-8 rounded-xl",
+                  searchMode === 'semantic' && "bg-primary/10 text-primary"
+                )}
+                title={searchMode === 'semantic' ? 'Semantic search (by meaning) — click for keyword search' : 'Keyword search — click to search by meaning'}
+              >
+                <Sparkles className={cn("h-4 w-4", semanticLoading && "animate-spin")} />
+              </Button>
             </div>
             
             <div className="lg:col-span-2">
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select value={filters.status} onValueChange={(status) => updateFilters({ status })}>
                 <SelectTrigger className="h-12 rounded-2xl border-primary/20 bg-background/50 backdrop-blur-sm">
                   <Filter className="h-4 w-4 mr-2" />
                   <SelectValue placeholder="Status" />
@@ -320,6 +520,7 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
                 <SelectContent className="bg-background/95 backdrop-blur-sm border border-primary/20">
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="uploaded">✅ Uploaded</SelectItem>
+                  <SelectItem value="reviewed">👁️ Reviewed</SelectItem>
                   <SelectItem value="processing">⚡ Processing</SelectItem>
                   <SelectItem value="failed">❌ Failed</SelectItem>
                 </SelectContent>
@@ -327,7 +528,7 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
             </div>
             
             <div className="lg:col-span-2">
-              <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <Select value={filters.type} onValueChange={(type) => updateFilters({ type })}>
                 <SelectTrigger className="h-12 rounded-2xl border-primary/20 bg-background/50 backdrop-blur-sm">
                   <SelectValue placeholder="Type" />
                 </SelectTrigger>
@@ -341,12 +542,32 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
             </div>
             
             <div className="lg:col-span-2">
-              <Select value={sortBy} onValueChange={(value: any) => setSortBy(value)}>
+              <Button
+                variant="outline"
+                onClick={() => setShowFacets(!showFacets)}
+                className={cn(
+                  "h-12 w-full justify-start rounded-2xl border-primary/20 bg-background/50 backdrop-blur-sm font-normal",
+                  showFacets && "bg-primary/10 text-primary"
+                )}
+              >
+                <Zap className="h-4 w-4 mr-2" />
+                Facets
+                {activeFacets > 0 && (
+                  <Badge variant="secondary" className="ml-auto bg-primary/10 text-primary border-primary/30">
+                    {activeFacets}
+                  </Badge>
+                )}
+              </Button>
+            </div>
+            
+            <div className="lg:col-span-2">
+              <Select value={sortBy} onValueChange={(sort: FileSort) => updateFilters({ sort })}>
                 <SelectTrigger className="h-12 rounded-2xl border-primary/20 bg-background/50 backdrop-blur-sm">
                   <SortAsc className="h-4 w-4 mr-2" />
                   <SelectValue placeholder="Sort" />
                 </SelectTrigger>
                 <SelectContent className="bg-background/95 backdrop-blur-sm border border-primary/20">
+                  <SelectItem value="relevance">🎯 Relevance</SelectItem>
                   <SelectItem value="date">📅 Date</SelectItem>
                   <SelectItem value="name">🔤 Name</SelectItem>
                   <SelectItem value="size">📏 Size</SelectItem>
@@ -364,6 +585,12 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
               </Button>
             </div>
           </div>
+
+          {showFacets && (
+            <div className="mt-4">
+              <FileFacets counts={facetCounts} filters={filters} onChange={updateFilters} onClear={clearFacets} />
+            </div>
+          )}
         </div>
       </div>
       
@@ -396,7 +623,7 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
             </div>
             <h3 className="text-2xl font-bold text-muted-foreground mb-2">No files found</h3>
             <p className="text-muted-foreground max-w-md">
-              {searchQuery || statusFilter !== 'all' || typeFilter !== 'all'
+              {searchQuery || filters.status !== 'all' || filters.type !== 'all' || activeFacets > 0
                 ? "Try adjusting your search criteria or filters"
                 : "Upload your first document to get started with AI-powered analysis"
               }
@@ -416,8 +643,13 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
                     ? "rounded-3xl bg-gradient-card border border-primary/20 shadow-soft hover:shadow-glow p-6"
                     : "rounded-2xl bg-gradient-card border border-primary/20 shadow-soft hover:shadow-colored p-4 flex items-center gap-4"
                 )}
-                style={{animationDelay: `${index * 50}ms`}}
+                style={{animationDelay: `${(index % PAGE_SIZE) * 50}ms`}}
                 onClick={() => onFileSelect?.(file)}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(DOCUMENT_DRAG_TYPE, file.id);
+                  e.dataTransfer.effectAllowed = 'copy';
+                }}
               >
                 {/* Animated Background */}
                 <div className="absolute inset-0 bg-gradient-primary opacity-0 group-hover:opacity-5 transition-opacity duration-500"></div>
@@ -451,8 +683,13 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
                         <div className="flex items-center gap-2">
                           <Zap className="h-4 w-4 text-primary" />
                           <Badge variant="secondary" className="bg-primary/10 text-primary border-primary/30">
-                            {file.classification}
+                            {getClassificationLabel(file.classification)}
                           </Badge>
+                          {file.lineItemsMismatch && (
+                            <Badge variant="destructive" title="Line items don't add up to the stated total">
+                              Totals mismatch
+                            </Badge>
+                          )}
                         </div>
                       )}
                       
@@ -461,6 +698,11 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
                           {file.summary}
                         </p>
                       )}
+
+                      {renderTags(file)}
+
+                      {renderSemanticMatch(file)}
+                      {renderSearchSnippet(file)}
                       
                       {file.confidence && (
                         <div className="flex items-center justify-center">
@@ -513,7 +755,12 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
                               <Eye className="h-4 w-4 mr-2" />
                               View Details
                             </DropdownMenuItem>
-                            <DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDownloadFile(file.id);
+                              }}
+                            >
                               <Download className="h-4 w-4 mr-2" />
                               Download
                             </DropdownMenuItem>
@@ -552,9 +799,15 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
                         {getStatusBadge(file.status)}
                         {file.classification && (
                           <Badge variant="secondary" className="bg-primary/10 text-primary border-primary/30">
-                            {file.classification}
+                            {getClassificationLabel(file.classification)}
                           </Badge>
                         )}
+                        {file.lineItemsMismatch && (
+                          <Badge variant="destructive" title="Line items don't add up to the stated total">
+                            Totals mismatch
+                          </Badge>
+                        )}
+                        {renderTags(file)}
                       </div>
                       
                       {file.summary && (
@@ -562,6 +815,8 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
                           {file.summary}
                         </p>
                       )}
+
+                      <div className="mb-1">{renderSemanticMatch(file)}{renderSearchSnippet(file)}</div>
                       
                       <div className="flex items-center gap-4 text-xs text-muted-foreground">
                         <span>{formatDate(file.timestamp)}</span>
@@ -606,7 +861,12 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
                               <Eye className="h-4 w-4 mr-2" />
                               View Details
                             </DropdownMenuItem>
-                            <DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDownloadFile(file.id);
+                              }}
+                            >
                               <Download className="h-4 w-4 mr-2" />
                               Download
                             </DropdownMenuItem>
@@ -630,6 +890,48 @@ const FileList: React.FC<FileListProps> = ({ refreshTrigger, onFileSelect }) =>
             ))}
           </div>
         )}
+
+        {!loading && viewMode === 'grid' && hasMore && (
+          <div ref={sentinelRef} className="flex justify-center py-8 text-sm text-muted-foreground">
+            {loadingMore && 'Loading more files...'}
+          </div>
+        )}
+
+        {!loading && viewMode === 'list' && totalPages > 1 && (
+          <Pagination className="mt-8">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); if (page > 1) loadFiles(page - 1); }}
+                  className={cn(page <= 1 && "pointer-events-none opacity-50")}
+                />
+              </PaginationItem>
+              {getPageNumbers(page, totalPages).map((pageNumber, index) => (
+                <PaginationItem key={index}>
+                  {pageNumber === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink
+                      href="#"
+                      isActive={pageNumber === page}
+                      onClick={(e) => { e.preventDefault(); loadFiles(pageNumber); }}
+                    >
+                      {pageNumber}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); if (page < totalPages) loadFiles(page + 1); }}
+                  className={cn(page >= totalPages && "pointer-events-none opacity-50")}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,104 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { LineItemTable } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+interface LineItemsTableProps {
+  table: LineItemTable;
+}
+
+const formatAmount = (value: number | null, currency: string | null) => {
+  if (value == null) return '—';
+  if (!currency) return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  try {
+    return value.toLocaleString(undefined, { style: 'currency', currency });
+  } catch {
+    // Not a valid ISO 4217 code
+    return `${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+  }
+};
+
+/** Extracted line items with the cross-check against the stated totals. */
+const LineItemsTable: React.FC<LineItemsTableProps> = ({ table }) => {
+  const { items, currency } = table;
+  const rowMismatches = items.filter(item => item.amount_mismatch).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {table.totals_match === true && (
+          <Badge variant="outline" className="border-green-500/40 text-green-700 flex items-center gap-1">
+            <CheckCircle className="h-3 w-3" />
+            Line items match the stated total
+          </Badge>
+        )}
+        {table.totals_match === false && (
+          <Badge variant="destructive" className="flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            Line items are off by {formatAmount(table.difference, currency)}
+          </Badge>
+        )}
+        {table.totals_match === null && (
+          <Badge variant="outline">No stated total to check against</Badge>
+        )}
+        {rowMismatches > 0 && (
+          <Badge variant="destructive" className="flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            {rowMismatches} row(s) where quantity × unit price ≠ amount
+          </Badge>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Description</TableHead>
+            <TableHead className="text-right">Quantity</TableHead>
+            <TableHead className="text-right">Unit Price</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.map((item, index) => (
+            <TableRow key={index} className={cn(item.amount_mismatch && 'bg-destructive/5')}>
+              <TableCell>{item.description || '—'}</TableCell>
+              <TableCell className="text-right">{item.quantity ?? '—'}</TableCell>
+              <TableCell className="text-right">{formatAmount(item.unit_price, currency)}</TableCell>
+              <TableCell className={cn('text-right', item.amount_mismatch && 'text-destructive font-medium')}>
+                {formatAmount(item.amount, currency)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={3}>Sum of line items</TableCell>
+            <TableCell className="text-right">{formatAmount(table.computed_total, currency)}</TableCell>
+          </TableRow>
+          {table.subtotal != null && (
+            <TableRow>
+              <TableCell colSpan={3}>Stated subtotal</TableCell>
+              <TableCell className="text-right">{formatAmount(table.subtotal, currency)}</TableCell>
+            </TableRow>
+          )}
+          {table.tax != null && (
+            <TableRow>
+              <TableCell colSpan={3}>Stated tax</TableCell>
+              <TableCell className="text-right">{formatAmount(table.tax, currency)}</TableCell>
+            </TableRow>
+          )}
+          {table.total != null && (
+            <TableRow>
+              <TableCell colSpan={3}>Stated total</TableCell>
+              <TableCell className="text-right">{formatAmount(table.total, currency)}</TableCell>
+            </TableRow>
+          )}
+        </TableFooter>
+      </Table>
+    </div>
+  );
+};
+
+export default LineItemsTable;
@@ -0,0 +1,282 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, ClipboardCheck, Clock, Save } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useDocumentTypes } from '@/hooks/useDocumentTypes';
+import { fileApi, REVIEW_CONFIDENCE_THRESHOLD, type FileUpload, type ReviewCorrection } from '@/lib/api';
+import { getClassificationLabel } from '@/lib/classifications';
+import { cn } from '@/lib/utils';
+
+// Metadata values are edited as text; non-string values round-trip as JSON
+const toFieldText = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+const fromFieldText = (original: unknown, text: string): unknown => {
+  if (typeof original === 'string') return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const toReview = (file: FileUpload): ReviewCorrection => ({
+  classification: file.classification ?? '',
+  summary: file.summary ?? '',
+  metadata: file.analysisMetadata ?? {},
+});
+
+const formatAge = (timestamp: string) => {
+  const hours = Math.floor((Date.now() - new Date(timestamp).getTime()) / 3600000);
+  if (hours < 1) return 'less than an hour ago';
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)} days ago`;
+};
+
+const ReviewQueue: React.FC = () => {
+  const [queue, setQueue] = useState<FileUpload[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<FileUpload | null>(null);
+  const [draft, setDraft] = useState<ReviewCorrection | null>(null);
+  const [metadataText, setMetadataText] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+  const { documentTypes } = useDocumentTypes();
+
+  const selectFile = (file: FileUpload | null) => {
+    setSelected(file);
+    setDraft(file ? toReview(file) : null);
+    setMetadataText(
+      Object.fromEntries(Object.entries(file?.analysisMetadata ?? {}).map(([key, value]) => [key, toFieldText(value)]))
+    );
+  };
+
+  const loadQueue = async () => {
+    try {
+      setLoading(true);
+      const files = await fileApi.getReviewQueue();
+      setQueue(files);
+      selectFile(files[0] ?? null);
+    } catch (error) {
+      console.error('Failed to load review queue:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load review queue",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const submit = async (review: ReviewCorrection) => {
+    if (!selected) return;
+
+    try {
+      setSubmitting(true);
+      await fileApi.submitReview(selected.id, review);
+      toast({
+        title: "Review saved",
+        description: `${selected.filename} marked as reviewed`,
+      });
+      const remaining = queue.filter(file => file.id !== selected.id);
+      setQueue(remaining);
+      selectFile(remaining[0] ?? null);
+    } catch (error) {
+      console.error('Failed to submit review:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save review",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAccept = () => {
+    if (selected) submit(toReview(selected));
+  };
+
+  const handleSaveCorrections = () => {
+    if (!selected || !draft) return;
+    const original = selected.analysisMetadata ?? {};
+    submit({
+      ...draft,
+      metadata: Object.fromEntries(
+        Object.entries(metadataText).map(([key, text]) => [key, fromFieldText(original[key], text)])
+      ),
+    });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <ClipboardCheck className="h-7 w-7 text-primary" />
+            Review Queue
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Analyses below {Math.round(REVIEW_CONFIDENCE_THRESHOLD * 100)}% confidence, least confident first
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Library
+          </Link>
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="grid gap-6 md:grid-cols-3 animate-pulse">
+          <div className="h-96 bg-muted rounded-lg"></div>
+          <div className="h-96 bg-muted rounded-lg md:col-span-2"></div>
+        </div>
+      ) : queue.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center space-y-2">
+              <CheckCircle className="h-12 w-12 mx-auto text-success" />
+              <h3 className="text-lg font-medium">Nothing to review</h3>
+              <p className="text-muted-foreground">All analyzed documents are above the confidence threshold or already reviewed.</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-3">
+          {/* Queue */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>Needs Review</span>
+                <Badge variant="outline">{queue.length}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {queue.map(file => (
+                <button
+                  key={file.id}
+                  type="button"
+                  onClick={() => selectFile(file)}
+                  className={cn(
+                    "w-full text-left p-3 rounded-lg border transition-colors hover:bg-muted",
+                    selected?.id === file.id && "border-primary bg-primary/5"
+                  )}
+                >
+                  <p className="text-sm font-medium truncate">{file.filename}</p>
+                  <div className="flex items-center justify-between mt-1 text-xs text-muted-foreground">
+                    <span className="text-destructive">
+                      {file.confidence != null ? `${Math.round(file.confidence * 100)}%` : 'No confidence'}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {formatAge(file.timestamp)}
+                    </span>
+                  </div>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Editor */}
+          {selected && draft && (
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle>{selected.filename}</CardTitle>
+                <CardDescription>
+                  AI classified this as {getClassificationLabel(selected.classification)}
+                  {selected.confidence != null && ` with ${Math.round(selected.confidence * 100)}% confidence`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                {selected.extracted_text && (
+                  <div className="bg-muted p-3 rounded-lg max-h-40 overflow-y-auto">
+                    <pre className="text-xs whitespace-pre-wrap font-mono">
+                      {selected.extracted_text.substring(0, 2000)}
+                    </pre>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="review-classification">Classification</Label>
+                  <Select
+                    value={draft.classification}
+                    onValueChange={(value) => setDraft({ ...draft, classification: value })}
+                  >
+                    <SelectTrigger id="review-classification">
+                      <SelectValue placeholder="Select a classification" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {documentTypes.map(type => (
+                        <SelectItem key={type.id} value={type.name}>
+                          {getClassificationLabel(type.name)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="review-summary">Summary</Label>
+                  <Textarea
+                    id="review-summary"
+                    value={draft.summary}
+                    onChange={(e) => setDraft({ ...draft, summary: e.target.value })}
+                    rows={4}
+                  />
+                </div>
+
+                {Object.keys(metadataText).length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Extracted Metadata</Label>
+                    <div className="space-y-2">
+                      {Object.entries(metadataText).map(([key, text]) => (
+                        <div key={key} className="grid grid-cols-3 gap-2 items-center">
+                          <span className="text-sm text-muted-foreground truncate" title={key}>{key}</span>
+                          <Input
+                            className="col-span-2"
+                            value={text}
+                            onChange={(e) => setMetadataText({ ...metadataText, [key]: e.target.value })}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex gap-3">
+                  <Button variant="outline" onClick={handleAccept} disabled={submitting} className="flex-1">
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Accept as Is
+                  </Button>
+                  <Button
+                    onClick={handleSaveCorrections}
+                    disabled={submitting || !draft.classification || !draft.summary.trim()}
+                    className="flex-1 bg-gradient-primary"
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    Save Corrections
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewQueue;
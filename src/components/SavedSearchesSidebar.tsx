@@ -0,0 +1,330 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark, Check, Folder, MoreHorizontal, Pencil, Pin, PinOff, Plus, Trash2, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { parseFilterQuery, toFileFilters, toFilterQuery, useFileFilterParams } from '@/hooks/useFileFilterParams';
+import { fileApi, savedSearchApi, type SavedSearch } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+// Document changes arrive in bursts while a batch is analyzed
+const COUNT_REFRESH_DELAY_MS = 1000;
+
+// Saved queries are normalized before comparing, so parameter order and
+// defaults don't matter
+const normalizeQuery = (query: string) => toFilterQuery(parseFilterQuery(query));
+
+/**
+ * Saved file list filters. Pinned searches are smart folders: their counts
+ * follow document changes, so newly analyzed documents show up right away.
+ */
+const SavedSearchesSidebar: React.FC = () => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [countsVersion, setCountsVersion] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [draftName, setDraftName] = useState('');
+  const [draftPinned, setDraftPinned] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const countTimer = useRef<ReturnType<typeof setTimeout>>();
+  const { filters, applyFilterQuery } = useFileFilterParams();
+  const { toast } = useToast();
+
+  const currentQuery = toFilterQuery(filters);
+  // Semantic matches depend on the embedding index at the time of the search
+  const canSave = filters.searchMode === 'keyword';
+
+  useEffect(() => {
+    const loadSearches = async () => {
+      try {
+        setSearches(await savedSearchApi.getSavedSearches());
+      } catch (error) {
+        console.error('Failed to load saved searches:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load saved searches",
+          variant: "destructive",
+        });
+      }
+    };
+    loadSearches();
+  }, [toast]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadCounts = async () => {
+      const entries = await Promise.all(searches.map(async search => {
+        try {
+          return [search.id, await fileApi.countFiles(toFileFilters(parseFilterQuery(search.query)))] as const;
+        } catch (error) {
+          console.error(`Failed to count saved search ${search.name}:`, error);
+          return null;
+        }
+      }));
+      if (!cancelled) {
+        setCounts(Object.fromEntries(entries.filter((entry): entry is readonly [string, number] => entry !== null)));
+      }
+    };
+    loadCounts();
+    return () => {
+      cancelled = true;
+    };
+  }, [searches, countsVersion]);
+
+  // Recount when documents are added, analyzed, reviewed or deleted
+  useEffect(() => {
+    const channel = supabase
+      .channel('saved-search-counts')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'documents'
+        },
+        () => {
+          clearTimeout(countTimer.current);
+          countTimer.current = setTimeout(() => setCountsVersion(version => version + 1), COUNT_REFRESH_DELAY_MS);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      clearTimeout(countTimer.current);
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const showError = (description: string, error: unknown) => {
+    console.error(description, error);
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const handleSave = async () => {
+    const name = draftName.trim();
+    if (!name) return;
+
+    try {
+      const created = await savedSearchApi.createSavedSearch({ name, query: currentQuery, pinned: draftPinned });
+      setSearches(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setSaving(false);
+      setDraftName('');
+      setDraftPinned(false);
+      toast({
+        title: "Success",
+        description: draftPinned ? `Smart folder "${name}" created` : `Search "${name}" saved`,
+      });
+    } catch (error) {
+      showError(searches.some(search => search.name === name)
+        ? `A saved search named "${name}" already exists`
+        : "Failed to save search", error);
+    }
+  };
+
+  const handleRename = async (search: SavedSearch) => {
+    const name = renameDraft.trim();
+    if (!name || name === search.name) {
+      setRenamingId(null);
+      return;
+    }
+
+    try {
+      await savedSearchApi.updateSavedSearch(search.id, { name });
+      setSearches(prev => prev
+        .map(item => item.id === search.id ? { ...item, name } : item)
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      setRenamingId(null);
+    } catch (error) {
+      showError("Failed to rename saved search", error);
+    }
+  };
+
+  const handleTogglePinned = async (search: SavedSearch) => {
+    try {
+      await savedSearchApi.updateSavedSearch(search.id, { pinned: !search.pinned });
+      setSearches(prev => prev.map(item => item.id === search.id ? { ...item, pinned: !search.pinned } : item));
+    } catch (error) {
+      showError("Failed to update saved search", error);
+    }
+  };
+
+  const handleUpdateQuery = async (search: SavedSearch) => {
+    try {
+      await savedSearchApi.updateSavedSearch(search.id, { query: currentQuery });
+      setSearches(prev => prev.map(item => item.id === search.id ? { ...item, query: currentQuery } : item));
+    } catch (error) {
+      showError("Failed to update saved search", error);
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    try {
+      await savedSearchApi.deleteSavedSearch(search.id);
+      setSearches(prev => prev.filter(item => item.id !== search.id));
+    } catch (error) {
+      showError("Failed to delete saved search", error);
+    }
+  };
+
+  const renderSearch = (search: SavedSearch) => {
+    const active = normalizeQuery(search.query) === currentQuery;
+
+    if (renamingId === search.id) {
+      return (
+        <div key={search.id} className="flex items-center gap-1">
+          <Input
+            value={renameDraft}
+            onChange={(e) => setRenameDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleRename(search)}
+            className="h-8"
+            autoFocus
+          />
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleRename(search)}>
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setRenamingId(null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div
+        key={search.id}
+        className={cn(
+          "group flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm cursor-pointer hover:bg-muted/50",
+          active && "bg-primary/10 text-primary"
+        )}
+        onClick={() => applyFilterQuery(search.query)}
+      >
+        {search.pinned ? <Folder className="h-4 w-4 shrink-0" /> : <Bookmark className="h-4 w-4 shrink-0" />}
+        <span className="flex-1 truncate">{search.name}</span>
+        <Badge variant="secondary" className="shrink-0">
+          {counts[search.id] ?? '…'}
+        </Badge>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={(e) => e.stopPropagation()}
+              className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+            >
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+            <DropdownMenuItem onClick={() => handleTogglePinned(search)}>
+              {search.pinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+              {search.pinned ? 'Unpin smart folder' : 'Pin as smart folder'}
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => { setRenamingId(search.id); setRenameDraft(search.name); }}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Rename
+            </DropdownMenuItem>
+            {!active && canSave && (
+              <DropdownMenuItem onClick={() => handleUpdateQuery(search)}>
+                <Check className="h-4 w-4 mr-2" />
+                Replace with current filters
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem onClick={() => handleDelete(search)} className="text-destructive">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    );
+  };
+
+  const smartFolders = searches.filter(search => search.pinned);
+  const savedSearches = searches.filter(search => !search.pinned);
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Saved Searches</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          className={cn(
+            "flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm cursor-pointer hover:bg-muted/50",
+            currentQuery === '' && "bg-primary/10 text-primary"
+          )}
+          onClick={() => applyFilterQuery('')}
+        >
+          <Folder className="h-4 w-4" />
+          All documents
+        </div>
+
+        {smartFolders.length > 0 && (
+          <div className="space-y-1">
+            <h4 className="px-2 text-xs font-medium uppercase text-muted-foreground">Smart Folders</h4>
+            {smartFolders.map(renderSearch)}
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <h4 className="px-2 text-xs font-medium uppercase text-muted-foreground">Searches</h4>
+          {savedSearches.length === 0 && (
+            <p className="px-2 text-xs text-muted-foreground">
+              Filter the library, then save the view here to reopen it in one click.
+            </p>
+          )}
+          {savedSearches.map(renderSearch)}
+        </div>
+
+        {saving ? (
+          <div className="space-y-3 rounded-lg border p-3">
+            <div className="space-y-1">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                placeholder="e.g. Contracts below 70% confidence"
+                autoFocus
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="saved-search-pinned" checked={draftPinned} onCheckedChange={setDraftPinned} />
+              <Label htmlFor="saved-search-pinned" className="font-normal">Pin as smart folder</Label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setSaving(false)}>Cancel</Button>
+              <Button size="sm" onClick={handleSave} disabled={!draftName.trim()}>Save</Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => setSaving(true)}
+            disabled={!canSave}
+            title={canSave ? undefined : 'Semantic searches can\'t be saved; switch to keyword search'}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Save current view
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SavedSearchesSidebar;
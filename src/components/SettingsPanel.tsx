@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { Brain, Save, ShieldCheck } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import TaxonomySettings from '@/components/TaxonomySettings';
+import { useToast } from '@/hooks/use-toast';
+import { settingsApi, type AccountSettings } from '@/lib/api';
+
+const MAX_FEW_SHOT_EXAMPLES = 20;
+
+const SettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<AccountSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        setSettings(await settingsApi.getSettings());
+      } catch (error) {
+        console.error('Failed to load settings:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load settings",
+          variant: "destructive",
+        });
+      }
+    };
+
+    loadSettings();
+  }, [toast]);
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    try {
+      setSaving(true);
+      await settingsApi.updateSettings(settings);
+      toast({
+        title: "Settings saved",
+        description: "New analyses will use these settings",
+      });
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return (
+      <div className="max-w-2xl mx-auto animate-pulse">
+        <div className="h-48 bg-muted rounded-lg"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <Card className="gradient-card border-primary/20">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-xl">
+            <Brain className="h-6 w-6 text-primary" />
+            Learning from Corrections
+          </CardTitle>
+          <CardDescription>
+            Corrections you submit through feedback are shown to the AI as examples when it analyzes new documents.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="few-shot-enabled" className="text-sm font-medium">
+              Use my past corrections
+            </Label>
+            <Switch
+              id="few-shot-enabled"
+              checked={settings.fewShotEnabled}
+              onCheckedChange={(checked) => setSettings({ ...settings, fewShotEnabled: checked })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium">Maximum examples per analysis</Label>
+              <span className="text-sm text-muted-foreground">{settings.fewShotMaxExamples}</span>
+            </div>
+            <Slider
+              min={0}
+              max={MAX_FEW_SHOT_EXAMPLES}
+              step={1}
+              value={[settings.fewShotMaxExamples]}
+              onValueChange={([value]) => setSettings({ ...settings, fewShotMaxExamples: value })}
+              disabled={!settings.fewShotEnabled}
+            />
+            <p className="text-xs text-muted-foreground">
+              The most similar corrections are picked first. More examples make prompts longer and analysis slower.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="gradient-card border-primary/20">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-xl">
+            <ShieldCheck className="h-6 w-6 text-primary" />
+            Personal Data
+          </CardTitle>
+          <CardDescription>
+            Emails, phone numbers, IDs, IBANs and addresses are detected in every document you upload.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="redact-external" className="text-sm font-medium">
+                Redact before sending to external AI providers
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Hosted providers such as OpenAI only receive text with personal data replaced. Local models see the original.
+              </p>
+            </div>
+            <Switch
+              id="redact-external"
+              checked={settings.redactExternalProviders}
+              onCheckedChange={(checked) => setSettings({ ...settings, redactExternalProviders: checked })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="pii-llm-assist" className="text-sm font-medium">
+                AI-assisted detection
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                A local model also looks for names and addresses the built-in patterns miss. Slows analysis down.
+              </p>
+            </div>
+            <Switch
+              id="pii-llm-assist"
+              checked={settings.piiLlmAssist}
+              onCheckedChange={(checked) => setSettings({ ...settings, piiLlmAssist: checked })}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Button onClick={handleSave} disabled={saving} className="bg-gradient-primary">
+        <Save className="h-4 w-4 mr-2" />
+        {saving ? 'Saving...' : 'Save Settings'}
+      </Button>
+
+      <TaxonomySettings />
+    </div>
+  );
+};
+
+export default SettingsPanel;
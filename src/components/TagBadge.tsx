@@ -0,0 +1,36 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { Tag } from '@/lib/api';
+
+interface TagBadgeProps {
+  tag: Tag;
+  onRemove?: () => void;
+}
+
+// Tinted with the tag's own color; the remove button only shows with onRemove
+const TagBadge: React.FC<TagBadgeProps> = ({ tag, onRemove }) => (
+  <Badge
+    variant="outline"
+    className="gap-1.5 font-medium"
+    style={{ borderColor: tag.color, backgroundColor: `${tag.color}1a`, color: tag.color }}
+  >
+    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+    {tag.name}
+    {onRemove && (
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          onRemove();
+        }}
+        className="-mr-1 rounded-full hover:bg-black/10"
+        title={`Remove ${tag.name}`}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    )}
+  </Badge>
+);
+
+export default TagBadge;
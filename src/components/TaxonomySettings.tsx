@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { Check, Pencil, Plus, Tags, Trash2, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useDocumentTypes } from '@/hooks/useDocumentTypes';
+import { taxonomyApi, type DocumentTypeInput } from '@/lib/api';
+import { EXTRACTION_SCHEMA_OPTIONS, FALLBACK_DOCUMENT_TYPE, getClassificationLabel, toDocumentTypeName } from '@/lib/classifications';
+
+interface TypeDraft {
+  label: string;
+  description: string;
+  // One example per line
+  examples: string;
+  // NO_SCHEMA when the type has no extracted fields
+  extractionSchema: string;
+}
+
+// Select items can't have an empty value
+const NO_SCHEMA = 'none';
+
+const EMPTY_DRAFT: TypeDraft = { label: '', description: '', examples: '', extractionSchema: NO_SCHEMA };
+
+const toInput = (draft: TypeDraft): DocumentTypeInput => ({
+  name: toDocumentTypeName(draft.label),
+  description: draft.description.trim(),
+  examples: draft.examples.split('\n').map(example => example.trim()).filter(Boolean),
+  extractionSchema: draft.extractionSchema === NO_SCHEMA ? null : draft.extractionSchema,
+});
+
+const TypeFields: React.FC<{
+  idPrefix: string;
+  draft: TypeDraft;
+  onChange: (draft: TypeDraft) => void;
+  nameLocked?: boolean;
+}> = ({ idPrefix, draft, onChange, nameLocked }) => (
+  <div className="space-y-3">
+    <div className="space-y-1">
+      <Label htmlFor={`${idPrefix}-name`}>Name</Label>
+      <Input
+        id={`${idPrefix}-name`}
+        value={draft.label}
+        onChange={(e) => onChange({ ...draft, label: e.target.value })}
+        placeholder="e.g. Purchase Order"
+        disabled={nameLocked}
+      />
+    </div>
+    <div className="space-y-1">
+      <Label htmlFor={`${idPrefix}-description`}>Description</Label>
+      <Input
+        id={`${idPrefix}-description`}
+        value={draft.description}
+        onChange={(e) => onChange({ ...draft, description: e.target.value })}
+        placeholder="What belongs in this type"
+      />
+    </div>
+    <div className="space-y-1">
+      <Label htmlFor={`${idPrefix}-examples`}>Examples (one per line)</Label>
+      <Textarea
+        id={`${idPrefix}-examples`}
+        value={draft.examples}
+        onChange={(e) => onChange({ ...draft, examples: e.target.value })}
+        rows={2}
+      />
+    </div>
+    <div className="space-y-1">
+      <Label htmlFor={`${idPrefix}-schema`}>Extracted fields</Label>
+      <Select value={draft.extractionSchema} onValueChange={(value) => onChange({ ...draft, extractionSchema: value })}>
+        <SelectTrigger id={`${idPrefix}-schema`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_SCHEMA}>None</SelectItem>
+          {EXTRACTION_SCHEMA_OPTIONS.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  </div>
+);
+
+const TaxonomySettings: React.FC = () => {
+  const { documentTypes, loading, reload } = useDocumentTypes();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TypeDraft>(EMPTY_DRAFT);
+  const [newDraft, setNewDraft] = useState<TypeDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const isDuplicate = (name: string, exceptId?: string) =>
+    documentTypes.some(type => type.name === name && type.id !== exceptId);
+
+  const run = async (action: () => Promise<void>, success: string, failure: string) => {
+    try {
+      setSaving(true);
+      await action();
+      await reload();
+      toast({ title: "Taxonomy updated", description: success });
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        title: "Error",
+        description: failure,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = (id: string) => {
+    const type = documentTypes.find(candidate => candidate.id === id);
+    if (!type) return;
+    setEditingId(id);
+    setDraft({
+      label: getClassificationLabel(type.name),
+      description: type.description,
+      examples: type.examples.join('\n'),
+      extractionSchema: type.extractionSchema ?? NO_SCHEMA,
+    });
+  };
+
+  const handleSaveEdit = () => {
+    const type = documentTypes.find(candidate => candidate.id === editingId);
+    if (!type) return;
+    const input = type.name === FALLBACK_DOCUMENT_TYPE ? { ...toInput(draft), name: type.name } : toInput(draft);
+    run(async () => {
+      await taxonomyApi.updateDocumentType(type.id, input);
+      setEditingId(null);
+    }, input.name !== type.name
+      ? `Renamed to ${getClassificationLabel(input.name)}; existing documents were relabeled`
+      : `${getClassificationLabel(input.name)} saved`, 'Failed to save document type');
+  };
+
+  const handleCreate = () => {
+    const input = toInput(newDraft);
+    run(async () => {
+      await taxonomyApi.createDocumentType(input);
+      setNewDraft(EMPTY_DRAFT);
+    }, `${getClassificationLabel(input.name)} added`, 'Failed to add document type');
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    run(() => taxonomyApi.deleteDocumentType(id), `${getClassificationLabel(name)} removed`, 'Failed to remove document type');
+  };
+
+  const newName = toDocumentTypeName(newDraft.label);
+  const editName = toDocumentTypeName(draft.label);
+
+  return (
+    <Card className="gradient-card border-primary/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Tags className="h-6 w-6 text-primary" />
+          Document Types
+        </CardTitle>
+        <CardDescription>
+          The AI classifies every document as one of these types. Descriptions and examples are included in its instructions.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="h-32 bg-muted rounded-lg animate-pulse"></div>
+        ) : (
+          <div className="space-y-2">
+            {documentTypes.map(type => (
+              <div key={type.id} className="p-3 rounded-lg border">
+                {editingId === type.id ? (
+                  <div className="space-y-3">
+                    <TypeFields
+                      idPrefix={`type-${type.id}`}
+                      draft={draft}
+                      onChange={setDraft}
+                      nameLocked={type.name === FALLBACK_DOCUMENT_TYPE}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={handleSaveEdit}
+                        disabled={saving || !editName || isDuplicate(editName, type.id)}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Save
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)} disabled={saving}>
+                        <X className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{getClassificationLabel(type.name)}</span>
+                        {type.name === FALLBACK_DOCUMENT_TYPE && <Badge variant="outline">Fallback</Badge>}
+                      </div>
+                      {type.description && <p className="text-sm text-muted-foreground">{type.description}</p>}
+                      {type.examples.length > 0 && (
+                        <p className="text-xs text-muted-foreground truncate">e.g. {type.examples.join(', ')}</p>
+                      )}
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <Button size="icon" variant="ghost" onClick={() => startEditing(type.id)} disabled={saving}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      {type.name !== FALLBACK_DOCUMENT_TYPE && (
+                        <Button size="icon" variant="ghost" onClick={() => handleDelete(type.id, type.name)} disabled={saving}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="pt-4 border-t space-y-3">
+          <h4 className="text-sm font-medium">Add a type</h4>
+          <TypeFields idPrefix="new-type" draft={newDraft} onChange={setNewDraft} />
+          {newName && isDuplicate(newName) && (
+            <p className="text-xs text-destructive">A type named {getClassificationLabel(newName)} already exists.</p>
+          )}
+          <Button onClick={handleCreate} disabled={saving || !newName || isDuplicate(newName)} variant="outline">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Type
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaxonomySettings;
@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from 'react';
+import { taxonomyApi, type DocumentType } from '@/lib/api';
+
+/**
+ * The signed-in account's document taxonomy, which drives classification
+ * pickers and filters. Errors leave the list empty; callers fall back to
+ * showing whatever classification a document already has.
+ */
+export const useDocumentTypes = () => {
+  const [documentTypes, setDocumentTypes] = useState<DocumentType[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      setDocumentTypes(await taxonomyApi.getDocumentTypes());
+    } catch (error) {
+      console.error('Failed to load document types:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { documentTypes, loading, reload };
+};
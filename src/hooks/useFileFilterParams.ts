@@ -0,0 +1,176 @@
+import { useSearchParams } from 'react-router-dom';
+import { addDays, isValid, parseISO, startOfDay, startOfMonth, startOfQuarter, startOfYear } from 'date-fns';
+import type { ConfidenceBand, FileFilters, FileSort, ReviewState } from '@/lib/api';
+
+// Upload windows relative to today, so a saved search keeps meaning "this
+// quarter" instead of the quarter it was saved in
+export type DatePeriod = 'last_7_days' | 'last_30_days' | 'this_month' | 'this_quarter' | 'this_year';
+
+export const DATE_PERIODS: DatePeriod[] = ['last_7_days', 'last_30_days', 'this_month', 'this_quarter', 'this_year'];
+
+// The file list's filters as they appear in the URL, so a filtered view can be
+// bookmarked or shared. Defaults are left out of the URL.
+export interface FileListFilters {
+  search: string;
+  searchMode: 'keyword' | 'semantic';
+  status: string;
+  type: string;
+  classifications: string[];
+  topics: string[];
+  // Picked in the sidebar's folder tree rather than the facet panels
+  collectionId: string | null;
+  tagIds: string[];
+  // yyyy-MM-dd, both days inclusive
+  from: string | null;
+  to: string | null;
+  // Takes the place of from and to when set
+  period: DatePeriod | null;
+  // Extracted amount bounds, both inclusive
+  minAmount: number | null;
+  maxAmount: number | null;
+  confidenceBands: ConfidenceBand[];
+  analysisMethods: string[];
+  reviewStates: ReviewState[];
+  sort: FileSort;
+}
+
+const FILE_SORTS: FileSort[] = ['relevance', 'name', 'date', 'size', 'confidence'];
+const CONFIDENCE_BANDS: ConfidenceBand[] = ['high', 'medium', 'low'];
+const REVIEW_STATES: ReviewState[] = ['reviewed', 'needs_review', 'unreviewed'];
+
+const isDate = (value: string | null): value is string => !!value && isValid(parseISO(value));
+
+const parseAmount = (value: string | null): number | null =>
+  value && Number.isFinite(Number(value)) ? Number(value) : null;
+
+// First day of each period, local time
+const PERIOD_START: Record<DatePeriod, (today: Date) => Date> = {
+  last_7_days: today => startOfDay(addDays(today, -6)),
+  last_30_days: today => startOfDay(addDays(today, -29)),
+  this_month: startOfMonth,
+  this_quarter: startOfQuarter,
+  this_year: startOfYear,
+};
+
+const parseFilters = (params: URLSearchParams): FileListFilters => ({
+  search: params.get('q') ?? '',
+  searchMode: params.get('mode') === 'semantic' ? 'semantic' : 'keyword',
+  status: params.get('status') ?? 'all',
+  type: params.get('type') ?? 'all',
+  classifications: params.getAll('class'),
+  topics: params.getAll('topic'),
+  collectionId: params.get('folder'),
+  tagIds: params.getAll('tag'),
+  from: isDate(params.get('from')) ? params.get('from') : null,
+  to: isDate(params.get('to')) ? params.get('to') : null,
+  period: DATE_PERIODS.find(period => period === params.get('period')) ?? null,
+  minAmount: parseAmount(params.get('min_amount')),
+  maxAmount: parseAmount(params.get('max_amount')),
+  confidenceBands: params.getAll('confidence').filter((value): value is ConfidenceBand => CONFIDENCE_BANDS.includes(value as ConfidenceBand)),
+  analysisMethods: params.getAll('method'),
+  reviewStates: params.getAll('review').filter((value): value is ReviewState => REVIEW_STATES.includes(value as ReviewState)),
+  sort: FILE_SORTS.find(sort => sort === params.get('sort')) ?? 'relevance',
+});
+
+const writeFilters = (params: URLSearchParams, filters: FileListFilters) => {
+  const single: [string, string | null, string | null][] = [
+    ['q', filters.search, ''],
+    ['mode', filters.searchMode, 'keyword'],
+    ['status', filters.status, 'all'],
+    ['type', filters.type, 'all'],
+    ['folder', filters.collectionId, null],
+    ['from', filters.from, null],
+    ['to', filters.to, null],
+    ['period', filters.period, null],
+    ['min_amount', filters.minAmount?.toString() ?? null, null],
+    ['max_amount', filters.maxAmount?.toString() ?? null, null],
+    ['sort', filters.sort, 'relevance'],
+  ];
+  for (const [key, value, fallback] of single) {
+    if (value && value !== fallback) params.set(key, value);
+    else params.delete(key);
+  }
+
+  const multiple: [string, string[]][] = [
+    ['class', filters.classifications],
+    ['topic', filters.topics],
+    ['tag', filters.tagIds],
+    ['confidence', filters.confidenceBands],
+    ['method', filters.analysisMethods],
+    ['review', filters.reviewStates],
+  ];
+  for (const [key, values] of multiple) {
+    params.delete(key);
+    values.forEach(value => params.append(key, value));
+  }
+};
+
+export const parseFilterQuery = (query: string): FileListFilters => parseFilters(new URLSearchParams(query));
+
+/** The filters as a normalized query string: defaults dropped, fixed key order. */
+export const toFilterQuery = (filters: FileListFilters): string => {
+  const params = new URLSearchParams();
+  writeFilters(params, filters);
+  return params.toString();
+};
+
+/**
+ * Converts URL filters to getFiles filters; dates become local-day bounds and
+ * a period starts on its first day as of now.
+ */
+export const toFileFilters = (filters: FileListFilters): FileFilters => ({
+  search: filters.searchMode === 'keyword' && filters.search ? filters.search : undefined,
+  status: filters.status !== 'all' ? filters.status : undefined,
+  type: filters.type !== 'all' ? filters.type : undefined,
+  classifications: filters.classifications,
+  topics: filters.topics,
+  collectionId: filters.collectionId ?? undefined,
+  tagIds: filters.tagIds,
+  uploadedFrom: filters.period
+    ? PERIOD_START[filters.period](new Date()).toISOString()
+    : filters.from ? startOfDay(parseISO(filters.from)).toISOString() : undefined,
+  uploadedBefore: !filters.period && filters.to ? addDays(startOfDay(parseISO(filters.to)), 1).toISOString() : undefined,
+  confidenceBands: filters.confidenceBands,
+  analysisMethods: filters.analysisMethods,
+  reviewStates: filters.reviewStates,
+  amountMin: filters.minAmount ?? undefined,
+  amountMax: filters.maxAmount ?? undefined,
+  sort: filters.sort,
+});
+
+export const countActiveFacets = (filters: FileListFilters) =>
+  filters.classifications.length + filters.topics.length + filters.tagIds.length + filters.confidenceBands.length +
+  filters.analysisMethods.length + filters.reviewStates.length + (filters.from || filters.to || filters.period ? 1 : 0) +
+  (filters.minAmount != null || filters.maxAmount != null ? 1 : 0);
+
+export const useFileFilterParams = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseFilters(searchParams);
+
+  const updateFilters = (changes: Partial<FileListFilters>) => {
+    setSearchParams(current => {
+      const next = new URLSearchParams(current);
+      writeFilters(next, { ...parseFilters(current), ...changes });
+      return next;
+    }, { replace: true });
+  };
+
+  const clearFacets = () => updateFilters({
+    classifications: [],
+    topics: [],
+    tagIds: [],
+    from: null,
+    to: null,
+    period: null,
+    minAmount: null,
+    maxAmount: null,
+    confidenceBands: [],
+    analysisMethods: [],
+    reviewStates: [],
+  });
+
+  // Replaces every filter, e.g. when opening a saved search
+  const applyFilterQuery = (query: string) => updateFilters(parseFilterQuery(query));
+
+  return { filters, updateFilters, clearFacets, applyFilterQuery };
+};
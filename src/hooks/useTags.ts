@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+import { tagApi, type Tag } from '@/lib/api';
+
+/**
+ * The signed-in account's tags, for tag pickers and the tag facet. Errors
+ * leave the list empty.
+ */
+export const useTags = () => {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      setTags(await tagApi.getTags());
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { tags, loading, reload };
+};
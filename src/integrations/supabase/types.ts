@@ -14,48 +14,739 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_settings: {
+        Row: {
+          created_at: string
+          few_shot_enabled: boolean
+          few_shot_max_examples: number
+          pii_llm_assist: boolean
+          redact_external_providers: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          few_shot_enabled?: boolean
+          few_shot_max_examples?: number
+          pii_llm_assist?: boolean
+          redact_external_providers?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          few_shot_enabled?: boolean
+          few_shot_max_examples?: number
+          pii_llm_assist?: boolean
+          redact_external_providers?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      analysis_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          file_id: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_run_at: string
+          payload: Json
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          file_id: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_run_at?: string
+          payload?: Json
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          file_id?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_run_at?: string
+          payload?: Json
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_jobs_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["file_id"]
+          },
+        ]
+      }
+      collection_documents: {
+        Row: {
+          collection_id: string
+          created_at: string
+          file_id: string
+        }
+        Insert: {
+          collection_id: string
+          created_at?: string
+          file_id: string
+        }
+        Update: {
+          collection_id?: string
+          created_at?: string
+          file_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_documents_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_documents_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["file_id"]
+          },
+        ]
+      }
+      collections: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collections_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          embedding: string | null
+          embedding_model: string | null
+          end_offset: number
+          file_id: string
+          id: string
+          page: number | null
+          start_offset: number
+          user_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          end_offset: number
+          file_id: string
+          id?: string
+          page?: number | null
+          start_offset: number
+          user_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          end_offset?: number
+          file_id?: string
+          id?: string
+          page?: number | null
+          start_offset?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_chunks_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["file_id"]
+          },
+        ]
+      }
+      document_feedback: {
+        Row: {
+          corrected_value: string
+          created_at: string
+          feedback_type: string
+          file_id: string
+          id: string
+          original_value: string | null
+          reason: string | null
+          user_id: string
+        }
+        Insert: {
+          corrected_value: string
+          created_at?: string
+          feedback_type: string
+          file_id: string
+          id?: string
+          original_value?: string | null
+          reason?: string | null
+          user_id: string
+        }
+        Update: {
+          corrected_value?: string
+          created_at?: string
+          feedback_type?: string
+          file_id?: string
+          id?: string
+          original_value?: string | null
+          reason?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_feedback_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["file_id"]
+          },
+        ]
+      }
+      document_fields: {
+        Row: {
+          confidence: number | null
+          created_at: string
+          field_key: string
+          field_label: string
+          field_type: string
+          file_id: string
+          id: string
+          position: number
+          user_id: string
+          value_date: string | null
+          value_list: string[] | null
+          value_number: number | null
+          value_text: string | null
+        }
+        Insert: {
+          confidence?: number | null
+          created_at?: string
+          field_key: string
+          field_label: string
+          field_type: string
+          file_id: string
+          id?: string
+          position?: number
+          user_id: string
+          value_date?: string | null
+          value_list?: string[] | null
+          value_number?: number | null
+          value_text?: string | null
+        }
+        Update: {
+          confidence?: number | null
+          created_at?: string
+          field_key?: string
+          field_label?: string
+          field_type?: string
+          file_id?: string
+          id?: string
+          position?: number
+          user_id?: string
+          value_date?: string | null
+          value_list?: string[] | null
+          value_number?: number | null
+          value_text?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_fields_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["file_id"]
+          },
+        ]
+      }
+      document_pii: {
+        Row: {
+          confidence: number
+          created_at: string
+          detector: string
+          end_offset: number
+          file_id: string
+          id: string
+          pii_type: string
+          start_offset: number
+          user_id: string
+        }
+        Insert: {
+          confidence: number
+          created_at?: string
+          detector: string
+          end_offset: number
+          file_id: string
+          id?: string
+          pii_type: string
+          start_offset: number
+          user_id: string
+        }
+        Update: {
+          confidence?: number
+          created_at?: string
+          detector?: string
+          end_offset?: number
+          file_id?: string
+          id?: string
+          pii_type?: string
+          start_offset?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_pii_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["file_id"]
+          },
+        ]
+      }
+      document_tags: {
+        Row: {
+          created_at: string
+          file_id: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          file_id: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          file_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_tags_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["file_id"]
+          },
+          {
+            foreignKeyName: "document_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_types: {
+        Row: {
+          created_at: string
+          description: string
+          examples: string[]
+          extraction_schema: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          examples?: string[]
+          extraction_schema?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          examples?: string[]
+          extraction_schema?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       documents: {
         Row: {
+          analysis_finished_at: string | null
+          analysis_method: string | null
+          analysis_started_at: string | null
+          classification: string | null
           confidence: number | null
+          confidence_band: string | null
           created_at: string | null
           doc_type: string | null
           entities: Json | null
           extracted_text: string | null
           file_id: string
+          file_kind: string | null
+          file_size: number | null
           filename: string
+          key_points: string[] | null
+          line_items: Json | null
+          line_items_mismatch: boolean
+          metadata: Json | null
+          mime_type: string | null
+          ocr_confidence: number | null
+          ocr_words: Json | null
+          pii_scanned_at: string | null
+          provider_latency_ms: number | null
+          review_state: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          schema_violations: Json | null
+          search_vector: unknown | null
           status: string
+          storage_path: string | null
+          summary: string | null
+          topics: string[] | null
           user_id: string | null
         }
         Insert: {
+          analysis_finished_at?: string | null
+          analysis_started_at?: string | null
+          classification?: string | null
           confidence?: number | null
           created_at?: string | null
           doc_type?: string | null
           entities?: Json | null
           extracted_text?: string | null
           file_id: string
+          file_size?: number | null
           filename: string
+          key_points?: string[] | null
+          line_items?: Json | null
+          line_items_mismatch?: boolean
+          metadata?: Json | null
+          mime_type?: string | null
+          ocr_confidence?: number | null
+          ocr_words?: Json | null
+          pii_scanned_at?: string | null
+          provider_latency_ms?: number | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          schema_violations?: Json | null
           status: string
+          storage_path?: string | null
+          summary?: string | null
+          topics?: string[] | null
           user_id?: string | null
         }
         Update: {
+          analysis_finished_at?: string | null
+          analysis_started_at?: string | null
+          classification?: string | null
           confidence?: number | null
           created_at?: string | null
           doc_type?: string | null
           entities?: Json | null
           extracted_text?: string | null
           file_id?: string
+          file_size?: number | null
           filename?: string
+          key_points?: string[] | null
+          line_items?: Json | null
+          line_items_mismatch?: boolean
+          metadata?: Json | null
+          mime_type?: string | null
+          ocr_confidence?: number | null
+          ocr_words?: Json | null
+          pii_scanned_at?: string | null
+          provider_latency_ms?: number | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          schema_violations?: Json | null
           status?: string
+          storage_path?: string | null
+          summary?: string | null
+          topics?: string[] | null
           user_id?: string | null
         }
         Relationships: []
       }
+      review_decisions: {
+        Row: {
+          changes: Json
+          confidence_before: number | null
+          created_at: string
+          decision: string
+          file_id: string
+          id: string
+          reviewer_id: string
+        }
+        Insert: {
+          changes?: Json
+          confidence_before?: number | null
+          created_at?: string
+          decision: string
+          file_id: string
+          id?: string
+          reviewer_id: string
+        }
+        Update: {
+          changes?: Json
+          confidence_before?: number | null
+          created_at?: string
+          decision?: string
+          file_id?: string
+          id?: string
+          reviewer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_decisions_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["file_id"]
+          },
+        ]
+      }
+      saved_searches: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          pinned: boolean
+          query: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          pinned?: boolean
+          query?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          pinned?: boolean
+          query?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      amount: {
+        Args: { "": Database["public"]["Tables"]["documents"]["Row"] }
+        Returns: number
+      }
+      claim_analysis_jobs: {
+        Args: {
+          batch_size?: number
+          owner_filter?: string
+          stale_after_seconds?: number
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          file_id: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_run_at: string
+          payload: Json
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      collection_ids: {
+        Args: { "": Database["public"]["Tables"]["documents"]["Row"] }
+        Returns: string[]
+      }
+      document_facets: {
+        Args: {
+          amount_max?: number
+          amount_min?: number
+          classification_filter?: string[]
+          collection_filter?: string[]
+          confidence_filter?: string[]
+          file_id_filter?: string[]
+          kind_filter?: string
+          method_filter?: string[]
+          review_filter?: string[]
+          search_query?: string
+          status_filter?: string
+          tag_filter?: string[]
+          topic_filter?: string[]
+          uploaded_before?: string
+          uploaded_from?: string
+        }
+        Returns: {
+          document_count: number
+          facet: string
+          value: string
+        }[]
+      }
+      immutable_array_to_string: {
+        Args: { separator: string; value: string[] }
+        Returns: string
+      }
+      match_document_chunks: {
+        Args: {
+          embedding_model: string
+          match_count?: number
+          min_similarity?: number
+          query_embedding: string
+        }
+        Returns: {
+          chunk_index: number
+          content: string
+          end_offset: number
+          file_id: string
+          page: number
+          similarity: number
+          start_offset: number
+        }[]
+      }
+      search_documents: {
+        Args: {
+          amount_max?: number
+          amount_min?: number
+          classification_filter?: string[]
+          collection_filter?: string[]
+          confidence_filter?: string[]
+          file_id_filter?: string[]
+          kind_filter?: string
+          method_filter?: string[]
+          page_limit?: number
+          page_offset?: number
+          review_filter?: string[]
+          search_query: string
+          sort_by?: string
+          status_filter?: string
+          tag_filter?: string[]
+          topic_filter?: string[]
+          uploaded_before?: string
+          uploaded_from?: string
+        }
+        Returns: {
+          file_id: string
+          rank: number
+          snippet: string
+          total_count: number
+        }[]
+      }
+      seed_document_types: {
+        Args: { target_user_id: string }
+        Returns: undefined
+      }
+      submit_review: {
+        Args: {
+          new_classification: string
+          new_metadata: Json
+          new_summary: string
+          target_file_id: string
+        }
+        Returns: undefined
+      }
+      tag_ids: {
+        Args: { "": Database["public"]["Tables"]["documents"]["Row"] }
+        Returns: string[]
+      }
+      unindexed_documents: {
+        Args: { batch_size?: number }
+        Returns: {
+          extracted_text: string
+          file_id: string
+          user_id: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,24 +1,84 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { getCollectionScope } from '@/lib/collections';
+import { detectMimeType, extractText, type OcrResult } from '@/lib/extractors';
 
 export interface FileUpload {
   id: string;
   filename: string;
   type?: string;
   size: number;
-  status: 'uploaded' | 'processing' | 'completed' | 'failed';
+  status: 'uploaded' | 'processing' | 'completed' | 'failed' | 'reviewed';
   timestamp: string;
   classification?: string;
   summary?: string;
+  keyPoints?: string[];
+  topics?: string[];
+  analysisMetadata?: Record<string, unknown>;
   confidence?: number;
+  ocrConfidence?: number;
+  reviewedAt?: string;
+  lineItems?: LineItemTable;
+  lineItemsMismatch?: boolean;
+  // Set when the list comes from a keyword search
+  searchRank?: number;
+  searchSnippet?: string;
+  // Set on getFiles results, sorted by name
+  tags?: Tag[];
   doc_type?: string;
   extracted_text?: string;
   entities?: any;
 }
 
+export interface ExtractedField {
+  key: string;
+  label: string;
+  type: 'text' | 'number' | 'date' | 'list';
+  // Typed value when it parsed, otherwise the model's raw text
+  value: string | number | string[];
+  confidence: number | null;
+}
+
+export interface LineItem {
+  description: string;
+  quantity: number | null;
+  unit_price: number | null;
+  amount: number | null;
+  amount_mismatch: boolean;
+}
+
+// documents.line_items as written by analyze-document
+export interface LineItemTable {
+  items: LineItem[];
+  currency: string | null;
+  subtotal: number | null;
+  tax: number | null;
+  total: number | null;
+  computed_total: number;
+  // null when the document states no total to compare against
+  totals_match: boolean | null;
+  difference: number | null;
+}
+
+// Personal data in extracted_text, as character offsets
+export interface PiiSpan {
+  type: 'email' | 'phone' | 'iban' | 'credit_card' | 'national_id' | 'address' | 'person_name';
+  start: number;
+  end: number;
+  confidence: number;
+  detector: 'regex' | 'llm';
+}
+
 export interface FileDetails extends FileUpload {
   content?: string;
   metadata?: Record<string, any>;
   processingTime?: number;
+  providerLatencyMs?: number;
+  fields: ExtractedField[];
+  piiSpans: PiiSpan[];
+  // False until the text has been scanned for personal data; piiSpans is
+  // empty then, not because there is none
+  piiScanned: boolean;
 }
 
 export interface UploadProgress {
@@ -31,8 +91,11 @@ export interface Metrics {
   totalFiles: number;
   successRate: number;
   averageProcessingTime: number;
+  averageProviderLatency: number;
   uploadsToday: number;
   processingQueue: number;
+  // Document count per classification; unclassified documents are under ''
+  classificationCounts: Record<string, number>;
 }
 
 export interface FeedbackData {
@@ -42,17 +105,346 @@ export interface FeedbackData {
   reason?: string;
 }
 
+export interface AccountSettings {
+  fewShotEnabled: boolean;
+  fewShotMaxExamples: number;
+  // External LLM providers only receive text with personal data redacted
+  redactExternalProviders: boolean;
+  // A local model looks for personal data the patterns miss
+  piiLlmAssist: boolean;
+}
+
+export interface DocumentType {
+  id: string;
+  name: string;
+  description: string;
+  examples: string[];
+  // Which built-in field schema extraction uses (see EXTRACTION_SCHEMA_OPTIONS)
+  extractionSchema: string | null;
+}
+
+export type DocumentTypeInput = Omit<DocumentType, 'id'>;
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  // File list filters as encoded in its URL (see useFileFilterParams)
+  query: string;
+  // Shown as a smart folder
+  pinned: boolean;
+}
+
+export type SavedSearchInput = Omit<SavedSearch, 'id'>;
+
+// A user-made folder; documents can sit in several at once
+export interface Collection {
+  id: string;
+  name: string;
+  // null at the top level
+  parentId: string | null;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  // #rrggbb
+  color: string;
+}
+
+export type TagInput = Omit<Tag, 'id'>;
+
+export interface ReviewCorrection {
+  classification: string;
+  summary: string;
+  metadata: Record<string, unknown>;
+}
+
+// A document found by semantic search, with its best-matching passage
+export interface SemanticMatch {
+  fileId: string;
+  similarity: number;
+  passage: string;
+  page: number | null;
+  chunkIndex: number;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface AnswerCitation {
+  // The [n] marker used in the answer text
+  number: number;
+  fileId: string;
+  fileName: string;
+  page: number | null;
+  passage: string;
+  chunkIndex: number;
+  startOffset: number;
+  endOffset: number;
+  similarity: number;
+}
+
+export interface DocumentAnswer {
+  answer: string;
+  citations: AnswerCitation[];
+  // LLM provider that wrote the answer; null when nothing relevant was found
+  provider: string | null;
+  // Passages not yet embedded, so the answer couldn't draw on them
+  pendingPassages: number;
+}
+
+export type FileSort = 'relevance' | 'name' | 'date' | 'size' | 'confidence';
+
+export type ConfidenceBand = 'high' | 'medium' | 'low';
+
+export type ReviewState = 'reviewed' | 'needs_review' | 'unreviewed';
+
+// Facets combine with AND; values within a single-valued facet with OR
 export interface FileFilters {
   search?: string;
   status?: string;
+  // Any of these statuses, and only analyzed documents with a summary. Used
+  // by list views without search; search_documents doesn't take them.
+  statuses?: string[];
+  hasSummary?: boolean;
   type?: string;
+  classifications?: string[];
+  // Documents must have every one of these topics
+  topics?: string[];
+  // Documents in this collection or any of its subcollections
+  collectionId?: string;
+  // Documents must have every one of these tags
+  tagIds?: string[];
+  // Upload window as ISO timestamps: from is inclusive, before exclusive
+  uploadedFrom?: string;
+  uploadedBefore?: string;
+  confidenceBands?: ConfidenceBand[];
+  analysisMethods?: string[];
+  reviewStates?: ReviewState[];
+  // Bounds on the extracted amount (invoice total or contract value), both
+  // inclusive; documents without one don't match
+  amountMin?: number;
+  amountMax?: number;
+  // Relevance is the full-text rank while searching, newest first otherwise
+  sort?: FileSort;
+  // Restricts the list to these documents, e.g. semantic search matches
+  fileIds?: string[];
+  // 1-based; without a limit every matching document is returned
   page?: number;
   limit?: number;
 }
 
+export type FacetName = 'classification' | 'topic' | 'tag' | 'confidence' | 'method' | 'review';
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Counts most frequent first; a facet's own selection doesn't narrow it,
+// except topics and tags, which combine with AND. Tag values are tag ids.
+export type FacetCounts = Record<FacetName, FacetCount[]>;
+
+export interface FilePage {
+  files: FileUpload[];
+  // Matching documents across all pages
+  total: number;
+}
+
+// search_documents marks hits in snippets with these private-use characters
+// instead of HTML, so snippets can be highlighted without rendering markup
+export const SNIPPET_HIGHLIGHT_START = '\uE000';
+export const SNIPPET_HIGHLIGHT_END = '\uE001';
+
+// Analyzed documents below this confidence are queued for human review
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+
+const STORAGE_BUCKET = 'documents';
+const DOWNLOAD_URL_TTL_SECONDS = 60;
+
+// Storage keys only allow a conservative character set; the original name is
+// still kept in documents.filename and used for the download.
+const toStorageKey = (filename: string) => filename.replace(/[^\w.-]+/g, '_');
+
+// Wall-clock analysis time; null until the document has been analyzed
+const getProcessingSeconds = (doc: { analysis_started_at: string | null; analysis_finished_at: string | null }) => {
+  if (!doc.analysis_started_at || !doc.analysis_finished_at) return null;
+  return (new Date(doc.analysis_finished_at).getTime() - new Date(doc.analysis_started_at).getTime()) / 1000;
+};
+
+type DocumentRow = Database['public']['Tables']['documents']['Row'];
+
+// The columns toFileUpload reads; list rows leave out the text
+type DocumentListRow = Omit<DocumentRow, 'extracted_text' | 'ocr_words' | 'search_vector' | 'schema_violations' | 'pii_scanned_at'>
+  & Partial<Pick<DocumentRow, 'extracted_text'>>;
+
+const toFileUpload = (doc: DocumentListRow): FileUpload => ({
+  id: doc.file_id,
+  filename: doc.filename,
+  type: doc.mime_type ?? doc.doc_type,
+  size: doc.file_size ?? 0,
+  status: doc.status as FileUpload['status'],
+  timestamp: doc.created_at,
+  classification: doc.classification ?? undefined,
+  summary: doc.summary ?? undefined,
+  keyPoints: doc.key_points ?? [],
+  topics: doc.topics ?? [],
+  analysisMetadata: (doc.metadata as Record<string, unknown>) ?? {},
+  confidence: doc.confidence,
+  ocrConfidence: doc.ocr_confidence ?? undefined,
+  reviewedAt: doc.reviewed_at ?? undefined,
+  lineItems: (doc.line_items as unknown as LineItemTable) ?? undefined,
+  lineItemsMismatch: doc.line_items_mismatch,
+  doc_type: doc.doc_type,
+  extracted_text: doc.extracted_text,
+  entities: doc.entities,
+});
+
+type DocumentFieldRow = Database['public']['Tables']['document_fields']['Row'];
+
+// List rows with their tags embedded through document_tags. The extracted
+// text, OCR word boxes and search vector are only loaded with the details.
+const FILE_LIST_SELECT = 'file_id, user_id, filename, mime_type, doc_type, file_size, file_kind, status, created_at, storage_path, classification, summary, key_points, topics, metadata, entities, confidence, confidence_band, ocr_confidence, analysis_method, analysis_started_at, analysis_finished_at, provider_latency_ms, review_state, reviewed_at, reviewed_by, line_items, line_items_mismatch, document_tags(tags(id, name, color))';
+
+const toTags = (links: { tags: Tag | null }[]): Tag[] =>
+  links
+    .flatMap(link => link.tags ? [link.tags] : [])
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+// Filtering by a folder includes its subfolders
+const getCollectionFilter = async (collectionId: string): Promise<string[]> =>
+  getCollectionScope(await collectionApi.getCollections(), collectionId);
+
+// The user's documents under getFiles' filters, except search. Not async, so
+// the builder isn't awaited (and run) on return; head only counts.
+const queryFiles = (userId: string, filters: FileFilters | undefined, collectionScope: string[] | undefined, head = false) => {
+  let query = supabase
+    .from('documents')
+    .select(FILE_LIST_SELECT, { count: 'exact', head })
+    .eq('user_id', userId);
+
+  if (filters?.status && filters.status !== 'all') {
+    query = query.eq('status', filters.status);
+  }
+
+  if (nonEmpty(filters?.statuses)) {
+    query = query.in('status', filters.statuses);
+  }
+
+  if (filters?.hasSummary) {
+    query = query.not('summary', 'is', null).neq('summary', '');
+  }
+
+  if (filters?.type && filters.type !== 'all') {
+    query = query.eq('file_kind', filters.type);
+  }
+
+  if (nonEmpty(filters?.classifications)) {
+    query = query.in('classification', filters.classifications);
+  }
+
+  if (nonEmpty(filters?.topics)) {
+    query = query.contains('topics', filters.topics);
+  }
+
+  // tag_ids and collection_ids are computed fields on documents
+  if (nonEmpty(filters?.tagIds)) {
+    query = query.contains('tag_ids', filters.tagIds);
+  }
+
+  if (collectionScope) {
+    query = query.overlaps('collection_ids', collectionScope);
+  }
+
+  if (filters?.uploadedFrom) {
+    query = query.gte('created_at', filters.uploadedFrom);
+  }
+
+  if (filters?.uploadedBefore) {
+    query = query.lt('created_at', filters.uploadedBefore);
+  }
+
+  if (nonEmpty(filters?.confidenceBands)) {
+    query = query.in('confidence_band', filters.confidenceBands);
+  }
+
+  if (nonEmpty(filters?.analysisMethods)) {
+    query = query.in('analysis_method', filters.analysisMethods);
+  }
+
+  if (nonEmpty(filters?.reviewStates)) {
+    query = query.in('review_state', filters.reviewStates);
+  }
+
+  // amount is a computed field on documents too
+  if (filters?.amountMin != null) {
+    query = query.gte('amount', filters.amountMin);
+  }
+
+  if (filters?.amountMax != null) {
+    query = query.lte('amount', filters.amountMax);
+  }
+
+  if (filters?.fileIds) {
+    query = query.in('file_id', filters.fileIds);
+  }
+
+  return query;
+};
+
+// getFiles' filters as the arguments of search_documents and document_facets
+const toFilterArgs = async (filters: FileFilters) => ({
+  status_filter: filters.status && filters.status !== 'all' ? filters.status : undefined,
+  kind_filter: filters.type && filters.type !== 'all' ? filters.type : undefined,
+  file_id_filter: filters.fileIds,
+  collection_filter: filters.collectionId ? await getCollectionFilter(filters.collectionId) : undefined,
+  classification_filter: nonEmpty(filters.classifications),
+  topic_filter: nonEmpty(filters.topics),
+  tag_filter: nonEmpty(filters.tagIds),
+  uploaded_from: filters.uploadedFrom,
+  uploaded_before: filters.uploadedBefore,
+  confidence_filter: nonEmpty(filters.confidenceBands),
+  method_filter: nonEmpty(filters.analysisMethods),
+  review_filter: nonEmpty(filters.reviewStates),
+  amount_min: filters.amountMin,
+  amount_max: filters.amountMax,
+});
+
+interface SearchHit {
+  rank: number;
+  snippet: string;
+}
+
+type DocumentWithTags = DocumentListRow & { document_tags: { tags: Tag | null }[] };
+
+const toSearchResult = (doc: DocumentWithTags, hit?: SearchHit): FileUpload => ({
+  ...toFileUpload(doc),
+  tags: toTags(doc.document_tags),
+  ...(hit && { searchRank: hit.rank, searchSnippet: hit.snippet }),
+});
+
+const nonEmpty = <T,>(values?: T[]) => values && values.length > 0 ? values : undefined;
+
+const FILE_SORT_ORDER: Record<Exclude<FileSort, 'relevance'>, { column: string; ascending: boolean }> = {
+  date: { column: 'created_at', ascending: false },
+  name: { column: 'filename', ascending: true },
+  size: { column: 'file_size', ascending: false },
+  confidence: { column: 'confidence', ascending: false },
+};
+
+const toExtractedField = (row: DocumentFieldRow): ExtractedField => ({
+  key: row.field_key,
+  label: row.field_label,
+  type: row.field_type as ExtractedField['type'],
+  value: row.value_list ?? row.value_number ?? row.value_date ?? row.value_text ?? '',
+  confidence: row.confidence,
+});
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
 export const fileApi = {
   async uploadFiles(files: File[], onProgress?: (fileId: string, progress: number) => void): Promise<Array<{status: string}>> {
     const results: Array<{status: string}> = [];
+    let queuedAnalysis = false;
     
     for (const file of files) {
       try {
@@ -67,97 +459,83 @@ export const fileApi = {
         
         const { data: { user } } = await supabase.auth.getUser();
         if (!user) throw new Error('User not authenticated');
+
+        const mimeType = await detectMimeType(file);
         
-        // Enhanced text content extraction
+        // Extract text content (PDF text layer, plain text, ...)
         let textContent = '';
+        let pageCount: number | undefined;
+        let extractionMethod = 'failed';
+        let ocr: OcrResult | undefined;
         try {
-          if (file.type.includes('text')) {
-            textContent = await file.text();
-          } else if (file.type.includes('pdf')) {
-            // For PDF files, we would use a PDF parser in production
-            // For now, using filename and basic metadata
-            const reader = new FileReader();
-            const arrayBuffer = await new Promise<ArrayBuffer>((resolve, reject) => {
-              reader.onload = () => resolve(reader.result as ArrayBuffer);
-              reader.onerror = reject;
-              reader.readAsArrayBuffer(file);
-            });
-            
-            // Basic PDF detection and metadata extraction
-            const uint8Array = new Uint8Array(arrayBuffer);
-            const decoder = new TextDecoder('utf-8', { fatal: false });
-            let rawText = decoder.decode(uint8Array);
-            
-            // Extract readable text from PDF (basic approach)
-            const textMatches = rawText.match(/\w+/g);
-            if (textMatches && textMatches.length > 10) {
-              textContent = textMatches.slice(0, 100).join(' ');
-            } else {
-              textContent = `PDF document: ${file.name}. Size: ${file.size} bytes. Contains ${uint8Array.length} bytes of data.`;
-            }
-          } else if (file.type.includes('image')) {
-            textContent = `Image file: ${file.name}. Type: ${file.type}. Size: ${file.size} bytes. Image analysis would extract visual content in production.`;
-          } else if (file.type.includes('word') || file.type.includes('document')) {
-            textContent = `Document file: ${file.name}. Type: ${file.type}. Size: ${file.size} bytes. Document parsing would extract content in production.`;
-          } else {
-            textContent = `File: ${file.name}. Type: ${file.type}. Size: ${file.size} bytes. Binary content analysis available.`;
-          }
+          const extraction = await extractText(file, mimeType);
+          textContent = extraction.text;
+          pageCount = extraction.pages?.length;
+          extractionMethod = extraction.method;
+          ocr = extraction.ocr;
         } catch (error) {
           console.error('Error extracting content:', error);
           textContent = `File: ${file.name}. Content extraction failed but file uploaded successfully.`;
         }
 
+        // Keep the original bytes so the file can be downloaded later
+        const storagePath = `${user.id}/${fileId}/${toStorageKey(file.name)}`;
+        const { error: storageError } = await supabase.storage
+          .from(STORAGE_BUCKET)
+          .upload(storagePath, file, { contentType: mimeType });
+
+        if (storageError) {
+          console.error('Storage upload error:', storageError);
+          throw new Error(`Failed to store file: ${storageError.message}`);
+        }
+
         // Insert into database with initial status and better error handling
         const { data: insertData, error } = await supabase.from('documents').insert({
           file_id: fileId,
           user_id: user.id,
           filename: file.name,
           doc_type: file.type,
+          mime_type: mimeType,
+          file_size: file.size,
           status: 'processing',
-          extracted_text: textContent.substring(0, 500),
+          storage_path: storagePath,
+          extracted_text: textContent,
           confidence: 0.5,
+          ocr_confidence: ocr?.confidence ?? null,
+          ocr_words: ocr ? (ocr.words as unknown as Json) : null,
           entities: {
             file_size: file.size,
             upload_time: new Date().toISOString(),
-            content_preview: textContent.substring(0, 200)
+            page_count: pageCount,
+            extraction_method: extractionMethod
           }
         }).select();
 
         if (error) {
           console.error('Database error:', error);
+          await supabase.storage.from(STORAGE_BUCKET).remove([storagePath]);
           throw new Error(`Failed to save file to database: ${error.message}`);
         }
 
         console.log(`File ${file.name} saved to database successfully`);
 
-        // Trigger AI analysis in background with improved error handling
-        try {
-          const { data: functionData, error: functionError } = await supabase.functions.invoke('analyze-document', {
-            body: {
-              fileId,
-              content: textContent,
-              fileName: file.name,
-              mimeType: file.type
-            }
-          });
-
-          if (functionError) {
-            console.error('AI analysis function error:', functionError);
-            // Update status to indicate analysis failed but file uploaded
-            await supabase.from('documents').update({
-              status: 'uploaded',
-              extracted_text: 'File uploaded successfully. AI analysis failed - manual review available.'
-            }).eq('file_id', fileId);
-          } else {
-            console.log('AI analysis triggered successfully for:', file.name);
-          }
-        } catch (analysisError) {
-          console.error('Failed to trigger analysis for', file.name, ':', analysisError);
-          // Mark as uploaded even if analysis fails
-          await supabase.from('documents').update({
-            status: 'uploaded',
-            extracted_text: 'File uploaded successfully. AI analysis unavailable - manual review recommended.'
-          }).eq('file_id', fileId);
+        // Queue AI analysis; the worker retries with backoff, so nothing is lost
+        // if the provider is down or this tab closes before analysis finishes
+        const { error: jobError } = await supabase.from('analysis_jobs').insert({
+          file_id: fileId,
+          user_id: user.id,
+          payload: {
+            content: textContent,
+            fileName: file.name,
+            mimeType,
+          },
+        });
+
+        if (jobError) {
+          console.error('Failed to queue analysis for', file.name, ':', jobError);
+          await supabase.from('documents').update({ status: 'uploaded' }).eq('file_id', fileId);
+        } else {
+          queuedAnalysis = true;
         }
         
         // Final progress update
@@ -171,52 +549,202 @@ export const fileApi = {
         results.push({ status: 'failed' });
       }
     }
+
+    // Kick the queue worker right away instead of waiting for the next
+    // scheduled run; a failure here only delays analysis
+    if (queuedAnalysis) {
+      supabase.functions.invoke('process-analysis-jobs').catch(error => {
+        console.error('Failed to start analysis worker:', error);
+      });
+    }
     
     return results;
   },
 
-  async getFiles(filters?: FileFilters): Promise<FileUpload[]> {
+  async getFiles(filters?: FileFilters): Promise<FilePage> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
-      
-      let query = supabase
-        .from('documents')
-        .select('*')
-        .eq('user_id', user.id);
-      
-      if (filters?.status && filters.status !== 'all') {
-        query = query.eq('status', filters.status);
+
+      const sort = filters?.sort ?? 'relevance';
+      const page = Math.max(filters?.page ?? 1, 1);
+      const limit = filters?.limit;
+
+      // Ranked full-text matches; the query text is passed as a parameter and
+      // parsed by websearch_to_tsquery, so quotes, OR and -term work.
+      // search_documents filters, sorts and pages, so only one page of ids
+      // comes back.
+      const search = filters?.search?.trim();
+      if (search) {
+        const { data: matches, error: searchError } = await supabase.rpc('search_documents', {
+          search_query: search,
+          ...await toFilterArgs(filters),
+          sort_by: sort,
+          page_offset: limit ? (page - 1) * limit : 0,
+          page_limit: limit,
+        });
+
+        if (searchError) throw searchError;
+
+        // A page past the end has no rows to read the total from
+        const total = matches.length > 0
+          ? matches[0].total_count
+          : page > 1 ? await fileApi.countFiles(filters) : 0;
+        if (matches.length === 0) return { files: [], total };
+
+        const { data, error } = await supabase
+          .from('documents')
+          .select(FILE_LIST_SELECT)
+          .in('file_id', matches.map(match => match.file_id));
+
+        if (error) throw error;
+
+        const docs = new Map(data.map(doc => [doc.file_id, doc]));
+        return {
+          files: matches.flatMap(match => {
+            const doc = docs.get(match.file_id);
+            return doc ? [toSearchResult(doc, match)] : [];
+          }),
+          total,
+        };
       }
-      
-      if (filters?.search) {
-        query = query.or(`filename.ilike.%${filters.search}%,doc_type.ilike.%${filters.search}%,extracted_text.ilike.%${filters.search}%`);
+
+      let query = queryFiles(
+        user.id,
+        filters,
+        filters?.collectionId ? await getCollectionFilter(filters.collectionId) : undefined
+      );
+
+      // Without a search, relevance means newest first
+      const { column, ascending } = FILE_SORT_ORDER[sort === 'relevance' ? 'date' : sort];
+      // file_id breaks ties so offset pages don't overlap
+      query = query.order(column, { ascending, nullsFirst: false }).order('file_id');
+
+      if (limit) {
+        query = query.range((page - 1) * limit, page * limit - 1);
       }
-      
-      const { data, error } = await query.order('created_at', { ascending: false });
+
+      const { data, error, count } = await query;
       
       if (error) throw error;
       
-      return data.map(doc => ({
-        id: doc.file_id,
-        filename: doc.filename,
-        type: doc.doc_type,
-        size: Math.floor(Math.random() * 1000000) + 100000, // Mock size for now
-        status: doc.status as any,
-        timestamp: doc.created_at,
-        classification: generateMockClassification(doc.filename),
-        summary: doc.extracted_text?.substring(0, 100) + '...',
-        confidence: doc.confidence,
-        doc_type: doc.doc_type,
-        extracted_text: doc.extracted_text,
-        entities: doc.entities,
-      }));
+      return {
+        files: data.map(doc => toSearchResult(doc)),
+        total: count ?? data.length,
+      };
     } catch (error) {
       console.error('Failed to fetch files:', error);
       throw error;
     }
   },
 
+  // Number of documents getFiles would list, without fetching them
+  async countFiles(filters: FileFilters): Promise<number> {
+    try {
+      const search = filters.search?.trim();
+      if (search) {
+        const { data, error } = await supabase.rpc('search_documents', {
+          search_query: search,
+          ...await toFilterArgs(filters),
+          page_limit: 1,
+        });
+
+        if (error) throw error;
+        return data[0]?.total_count ?? 0;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { count, error } = await queryFiles(
+        user.id,
+        filters,
+        filters.collectionId ? await getCollectionFilter(filters.collectionId) : undefined,
+        true
+      );
+
+      if (error) throw error;
+      return count ?? 0;
+    } catch (error) {
+      console.error('Failed to count files:', error);
+      throw error;
+    }
+  },
+
+  // Counts for the facet panels under the same filters as getFiles
+  async getFacetCounts(filters: FileFilters): Promise<FacetCounts> {
+    try {
+      const { data, error } = await supabase.rpc('document_facets', {
+        search_query: filters.search?.trim() || undefined,
+        ...await toFilterArgs(filters),
+      });
+
+      if (error) throw error;
+
+      const counts: FacetCounts = { classification: [], topic: [], tag: [], confidence: [], method: [], review: [] };
+      for (const row of data) {
+        counts[row.facet as FacetName]?.push({ value: row.value, count: row.document_count });
+      }
+      Object.values(counts).forEach(values => values.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)));
+      return counts;
+    } catch (error) {
+      console.error('Failed to fetch facet counts:', error);
+      throw error;
+    }
+  },
+
+  // Ranks the user's documents by embedding similarity to the query
+  async semanticSearch(query: string, limit = 20): Promise<SemanticMatch[]> {
+    try {
+      const { data, error } = await supabase.functions.invoke('semantic-search', {
+        body: { query, limit },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Semantic search failed');
+      return data.results;
+    } catch (error) {
+      console.error('Semantic search failed:', error);
+      throw error;
+    }
+  },
+
+  // Answers a question from the user's documents, citing the passages used
+  async askDocuments(question: string): Promise<DocumentAnswer> {
+    try {
+      const { data, error } = await supabase.functions.invoke('ask-documents', {
+        body: { question },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to answer question');
+      return { answer: data.answer, citations: data.citations, provider: data.provider, pendingPassages: data.pendingPassages ?? 0 };
+    } catch (error) {
+      console.error('Failed to answer question:', error);
+      throw error;
+    }
+  },
+
+  async getFile(fileId: string): Promise<FileUpload> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('documents')
+        .select('*')
+        .eq('file_id', fileId)
+        .eq('user_id', user.id)
+        .single();
+
+      if (error) throw error;
+      return toFileUpload(data);
+    } catch (error) {
+      console.error('Failed to fetch file:', error);
+      throw error;
+    }
+  },
+
   async getFileDetails(fileId: string): Promise<FileDetails> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -230,19 +758,32 @@ export const fileApi = {
         .single();
       
       if (error) throw error;
+
+      const fieldsByFile = await fileApi.getExtractedFields([fileId]);
+
+      const { data: piiRows, error: piiError } = await supabase
+        .from('document_pii')
+        .select('pii_type, start_offset, end_offset, confidence, detector')
+        .eq('file_id', fileId)
+        .order('start_offset', { ascending: true });
+
+      if (piiError) throw piiError;
       
       return {
-        id: data.file_id,
-        filename: data.filename,
-        type: data.doc_type,
-        size: Math.floor(Math.random() * 1000000) + 100000,
-        status: data.status as any,
-        timestamp: data.created_at,
-        classification: generateMockClassification(data.filename),
-        summary: data.extracted_text?.substring(0, 100) + '...',
-        confidence: data.confidence,
+        ...toFileUpload(data),
+        fields: fieldsByFile[fileId] ?? [],
+        piiSpans: piiRows.map(row => ({
+          type: row.pii_type as PiiSpan['type'],
+          start: row.start_offset,
+          end: row.end_offset,
+          confidence: row.confidence,
+          detector: row.detector as PiiSpan['detector'],
+        })),
+        piiScanned: data.pii_scanned_at != null,
         content: data.extracted_text,
         metadata: data.entities as Record<string, any> || {},
+        processingTime: getProcessingSeconds(data) ?? undefined,
+        providerLatencyMs: data.provider_latency_ms ?? undefined,
       };
     } catch (error) {
       console.error('Failed to fetch file details:', error);
@@ -250,18 +791,77 @@ export const fileApi = {
     }
   },
 
+  // Typed fields from each document's extraction schema, in schema order
+  async getExtractedFields(fileIds: string[]): Promise<Record<string, ExtractedField[]>> {
+    try {
+      if (fileIds.length === 0) return {};
+
+      const { data, error } = await supabase
+        .from('document_fields')
+        .select('*')
+        .in('file_id', fileIds)
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+
+      const fieldsByFile: Record<string, ExtractedField[]> = {};
+      for (const row of data) {
+        (fieldsByFile[row.file_id] ??= []).push(toExtractedField(row));
+      }
+      return fieldsByFile;
+    } catch (error) {
+      console.error('Failed to fetch extracted fields:', error);
+      throw error;
+    }
+  },
+
+  async getDownloadUrl(fileId: string): Promise<string> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('documents')
+        .select('filename, storage_path')
+        .eq('file_id', fileId)
+        .eq('user_id', user.id)
+        .single();
+
+      if (error) throw error;
+      if (!data.storage_path) throw new Error('Original file is not available for this document');
+
+      const { data: signed, error: signError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .createSignedUrl(data.storage_path, DOWNLOAD_URL_TTL_SECONDS, { download: data.filename });
+
+      if (signError) throw signError;
+
+      return signed.signedUrl;
+    } catch (error) {
+      console.error('Failed to create download URL:', error);
+      throw error;
+    }
+  },
+
   async deleteFile(fileId: string): Promise<void> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
       
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('documents')
         .delete()
         .eq('file_id', fileId)
-        .eq('user_id', user.id);
+        .eq('user_id', user.id)
+        .select('storage_path');
       
       if (error) throw error;
+
+      const storagePaths = data.map(doc => doc.storage_path).filter(Boolean);
+      if (storagePaths.length > 0) {
+        const { error: storageError } = await supabase.storage.from(STORAGE_BUCKET).remove(storagePaths);
+        if (storageError) throw storageError;
+      }
     } catch (error) {
       console.error('Failed to delete file:', error);
       throw error;
@@ -275,13 +875,13 @@ export const fileApi = {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
+      // The function identifies the user from the session token
       const { error } = await supabase.functions.invoke('process-feedback', {
         body: {
           fileId: feedback.fileId,
           feedbackType: feedback.feedbackType,
           correctValue: feedback.correctValue,
           reason: feedback.reason,
-          userId: user.id
         }
       });
 
@@ -294,6 +894,54 @@ export const fileApi = {
     }
   },
 
+  async getReviewQueue(): Promise<FileUpload[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      // Least confident first, oldest first among equals
+      const { data, error } = await supabase
+        .from('documents')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('status', 'uploaded')
+        .or(`confidence.lt.${REVIEW_CONFIDENCE_THRESHOLD},confidence.is.null`)
+        .order('confidence', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return data.map(toFileUpload);
+    } catch (error) {
+      console.error('Failed to fetch review queue:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Records the reviewer's decision and marks the document reviewed. Values
+   * equal to the current ones count as accepted; anything else is applied as a
+   * correction and, for classification and summary, also kept as feedback so
+   * future analyses learn from it.
+   */
+  // The document update, the decision and the correction feedback are written
+  // together by submit_review, which also works out what changed
+  async submitReview(fileId: string, review: ReviewCorrection): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('submit_review', {
+        target_file_id: fileId,
+        new_classification: review.classification,
+        new_summary: review.summary,
+        new_metadata: review.metadata as Json,
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to submit review:', error);
+      throw error;
+    }
+  },
+
   async getMetrics(): Promise<Metrics> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -301,24 +949,34 @@ export const fileApi = {
       
       const { data, error } = await supabase
         .from('documents')
-        .select('status, created_at')
+        .select('status, classification, created_at, analysis_started_at, analysis_finished_at, provider_latency_ms')
         .eq('user_id', user.id);
       
       if (error) throw error;
       
       const totalFiles = data.length;
-      const successCount = data.filter(doc => doc.status === 'uploaded').length;
+      const successCount = data.filter(doc => doc.status === 'uploaded' || doc.status === 'reviewed').length;
       const today = new Date().toDateString();
       const uploadsToday = data.filter(doc => 
         new Date(doc.created_at).toDateString() === today
       ).length;
+
+      const processingTimes = data.map(getProcessingSeconds).filter((seconds): seconds is number => seconds !== null);
+      const latencies = data.map(doc => doc.provider_latency_ms).filter((ms): ms is number => ms !== null);
+      const classificationCounts: Record<string, number> = {};
+      for (const doc of data) {
+        const key = doc.classification ?? '';
+        classificationCounts[key] = (classificationCounts[key] ?? 0) + 1;
+      }
       
       return {
         totalFiles,
         successRate: totalFiles > 0 ? successCount / totalFiles : 0,
-        averageProcessingTime: 12.5,
+        averageProcessingTime: average(processingTimes),
+        averageProviderLatency: average(latencies) / 1000,
         uploadsToday,
         processingQueue: data.filter(doc => doc.status === 'processing').length,
+        classificationCounts,
       };
     } catch (error) {
       console.error('Failed to fetch metrics:', error);
@@ -326,33 +984,462 @@ export const fileApi = {
         totalFiles: 0,
         successRate: 0,
         averageProcessingTime: 0,
+        averageProviderLatency: 0,
         uploadsToday: 0,
         processingQueue: 0,
+        classificationCounts: {},
       };
     }
   },
 };
 
-// Helper functions for generating mock data
-const generateMockSummary = (filename: string): string => {
-  const summaries = [
-    `Comprehensive analysis of ${filename} reveals key insights and important data points`,
-    `Document contains structured information with high relevance and accuracy`,
-    `Professional document with detailed content and proper formatting`,
-    `Business document containing critical information and actionable insights`,
-    `Well-organized file with comprehensive data and analysis results`
-  ];
-  return summaries[Math.floor(Math.random() * summaries.length)];
+// Used when the account has never saved settings; matches the column defaults
+const DEFAULT_ACCOUNT_SETTINGS: AccountSettings = {
+  fewShotEnabled: true,
+  fewShotMaxExamples: 5,
+  redactExternalProviders: false,
+  piiLlmAssist: false,
+};
+
+export const settingsApi = {
+  async getSettings(): Promise<AccountSettings> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('account_settings')
+        .select('few_shot_enabled, few_shot_max_examples, redact_external_providers, pii_llm_assist')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return DEFAULT_ACCOUNT_SETTINGS;
+
+      return {
+        fewShotEnabled: data.few_shot_enabled,
+        fewShotMaxExamples: data.few_shot_max_examples,
+        redactExternalProviders: data.redact_external_providers,
+        piiLlmAssist: data.pii_llm_assist,
+      };
+    } catch (error) {
+      console.error('Failed to fetch settings:', error);
+      throw error;
+    }
+  },
+
+  async updateSettings(settings: AccountSettings): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('account_settings')
+        .upsert({
+          user_id: user.id,
+          few_shot_enabled: settings.fewShotEnabled,
+          few_shot_max_examples: settings.fewShotMaxExamples,
+          redact_external_providers: settings.redactExternalProviders,
+          pii_llm_assist: settings.piiLlmAssist,
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to update settings:', error);
+      throw error;
+    }
+  },
+};
+
+const DOCUMENT_TYPE_SELECT = 'id, name, description, examples, extraction_schema';
+
+type DocumentTypeRow = Pick<
+  Database['public']['Tables']['document_types']['Row'],
+  'id' | 'name' | 'description' | 'examples' | 'extraction_schema'
+>;
+
+const toDocumentType = ({ extraction_schema, ...type }: DocumentTypeRow): DocumentType => ({
+  ...type,
+  extractionSchema: extraction_schema,
+});
+
+const toDocumentTypeRow = ({ extractionSchema, ...type }: DocumentTypeInput) => ({
+  ...type,
+  extraction_schema: extractionSchema,
+});
+
+export const taxonomyApi = {
+  async getDocumentTypes(): Promise<DocumentType[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('document_types')
+        .select(DOCUMENT_TYPE_SELECT)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data.map(toDocumentType);
+    } catch (error) {
+      console.error('Failed to fetch document types:', error);
+      throw error;
+    }
+  },
+
+  async createDocumentType(type: DocumentTypeInput): Promise<DocumentType> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('document_types')
+        .insert({ user_id: user.id, ...toDocumentTypeRow(type) })
+        .select(DOCUMENT_TYPE_SELECT)
+        .single();
+
+      if (error) throw error;
+      return toDocumentType(data);
+    } catch (error) {
+      console.error('Failed to create document type:', error);
+      throw error;
+    }
+  },
+
+  // Renaming relabels existing documents (see the document_types trigger)
+  async updateDocumentType(id: string, type: DocumentTypeInput): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('document_types')
+        .update(toDocumentTypeRow(type))
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to update document type:', error);
+      throw error;
+    }
+  },
+
+  // Documents keep their classification; it just no longer appears as a choice
+  async deleteDocumentType(id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('document_types')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to delete document type:', error);
+      throw error;
+    }
+  },
+};
+
+export const savedSearchApi = {
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('id, name, query, pinned')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Failed to fetch saved searches:', error);
+      throw error;
+    }
+  },
+
+  async createSavedSearch(search: SavedSearchInput): Promise<SavedSearch> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .insert({ user_id: user.id, ...search })
+        .select('id, name, query, pinned')
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Failed to create saved search:', error);
+      throw error;
+    }
+  },
+
+  async updateSavedSearch(id: string, changes: Partial<SavedSearchInput>): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('saved_searches')
+        .update(changes)
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to update saved search:', error);
+      throw error;
+    }
+  },
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('saved_searches')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to delete saved search:', error);
+      throw error;
+    }
+  },
+};
+
+export const collectionApi = {
+  async getCollections(): Promise<Collection[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('collections')
+        .select('id, name, parent_id')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data.map(row => ({ id: row.id, name: row.name, parentId: row.parent_id }));
+    } catch (error) {
+      console.error('Failed to fetch collections:', error);
+      throw error;
+    }
+  },
+
+  async createCollection(name: string, parentId: string | null): Promise<Collection> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('collections')
+        .insert({ user_id: user.id, name, parent_id: parentId })
+        .select('id, name, parent_id')
+        .single();
+
+      if (error) throw error;
+      return { id: data.id, name: data.name, parentId: data.parent_id };
+    } catch (error) {
+      console.error('Failed to create collection:', error);
+      throw error;
+    }
+  },
+
+  async updateCollection(id: string, changes: { name?: string; parentId?: string | null }): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('collections')
+        .update({ name: changes.name, parent_id: changes.parentId })
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to update collection:', error);
+      throw error;
+    }
+  },
+
+  // Subcollections go with it; the documents themselves are kept
+  async deleteCollection(id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('collections')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to delete collection:', error);
+      throw error;
+    }
+  },
+
+  // Ids of the collections a document is in
+  async getDocumentCollections(fileId: string): Promise<string[]> {
+    try {
+      const { data, error } = await supabase
+        .from('collection_documents')
+        .select('collection_id')
+        .eq('file_id', fileId);
+
+      if (error) throw error;
+      return data.map(row => row.collection_id);
+    } catch (error) {
+      console.error('Failed to fetch document collections:', error);
+      throw error;
+    }
+  },
+
+  // Adding a document that is already in the collection is a no-op
+  async addDocument(collectionId: string, fileId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('collection_documents')
+        .upsert({ collection_id: collectionId, file_id: fileId }, { ignoreDuplicates: true });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to add document to collection:', error);
+      throw error;
+    }
+  },
+
+  async removeDocument(collectionId: string, fileId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('collection_documents')
+        .delete()
+        .eq('collection_id', collectionId)
+        .eq('file_id', fileId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to remove document from collection:', error);
+      throw error;
+    }
+  },
 };
 
-const generateMockClassification = (filename: string): string => {
-  const name = filename.toLowerCase();
-  if (name.includes('invoice')) return 'Invoice';
-  if (name.includes('contract')) return 'Contract';
-  if (name.includes('letter')) return 'Letter';
-  if (name.includes('report')) return 'Report';
-  if (name.includes('resume')) return 'Resume';
-  
-  const classifications = ['Invoice', 'Contract', 'Letter', 'Report', 'Proposal', 'Agreement'];
-  return classifications[Math.floor(Math.random() * classifications.length)];
+export const tagApi = {
+  async getTags(): Promise<Tag[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('tags')
+        .select('id, name, color')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Failed to fetch tags:', error);
+      throw error;
+    }
+  },
+
+  async createTag(tag: TagInput): Promise<Tag> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('tags')
+        .insert({ user_id: user.id, ...tag })
+        .select('id, name, color')
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Failed to create tag:', error);
+      throw error;
+    }
+  },
+
+  async updateTag(id: string, changes: Partial<TagInput>): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('tags')
+        .update(changes)
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to update tag:', error);
+      throw error;
+    }
+  },
+
+  // Removes the tag from every document
+  async deleteTag(id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('tags')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to delete tag:', error);
+      throw error;
+    }
+  },
+
+  async getDocumentTags(fileId: string): Promise<Tag[]> {
+    try {
+      const { data, error } = await supabase
+        .from('document_tags')
+        .select('tags(id, name, color)')
+        .eq('file_id', fileId);
+
+      if (error) throw error;
+      return toTags(data);
+    } catch (error) {
+      console.error('Failed to fetch document tags:', error);
+      throw error;
+    }
+  },
+
+  async addTag(fileId: string, tagId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('document_tags')
+        .upsert({ tag_id: tagId, file_id: fileId }, { ignoreDuplicates: true });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to tag document:', error);
+      throw error;
+    }
+  },
+
+  async removeTag(fileId: string, tagId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('document_tags')
+        .delete()
+        .eq('tag_id', tagId)
+        .eq('file_id', fileId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to untag document:', error);
+      throw error;
+    }
+  },
+};
+
+// Helper functions for generating mock data
+const generateMockSummary = (filename: string): string => {
+  const summaries = [
+    `Comprehensive analysis of ${filename} reveals key insights and important data points`,
+    `Document contains structured information with high relevance and accuracy`,
+    `Professional document with detailed content and proper formatting`,
+    `Business document containing critical information and actionable insights`,
+    `Well-organized file with comprehensive data and analysis results`
+  ];
+  return summaries[Math.floor(Math.random() * summaries.length)];
 };
\ No newline at end of file
@@ -0,0 +1,32 @@
+// Display helpers for documents.classification. The set of classes itself is
+// per account (document_types) and loaded through useDocumentTypes.
+
+// The analyzer's catch-all type; always present and can't be renamed or removed
+export const FALLBACK_DOCUMENT_TYPE = 'other';
+
+// Labels that don't follow from the name
+const LABEL_OVERRIDES: Record<string, string> = {
+  technical_doc: 'Technical Document',
+};
+
+export const getClassificationLabel = (value?: string | null): string => {
+  if (!value) return 'Unclassified';
+  if (LABEL_OVERRIDES[value]) return LABEL_OVERRIDES[value];
+  const words = value.replace(/_/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// "Purchase Order" -> purchase_order, the form type names are stored in
+export const toDocumentTypeName = (label: string): string =>
+  label.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '');
+
+// Built-in field schemas a type can extract (document_types.extraction_schema);
+// invoices and financial records also get line items
+export const EXTRACTION_SCHEMA_OPTIONS = [
+  { value: 'invoice', label: 'Invoice fields and line items' },
+  { value: 'financial', label: 'Financial fields and line items' },
+  { value: 'contract', label: 'Contract fields' },
+  { value: 'letter', label: 'Letter fields' },
+  { value: 'legal', label: 'Legal fields' },
+  { value: 'academic', label: 'Academic paper fields' },
+];
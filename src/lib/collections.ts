@@ -0,0 +1,14 @@
+// Helpers for the user's collection tree (collections.parent_id).
+import type { Collection } from '@/lib/api';
+
+// dataTransfer type for dragging a document from the file list onto a folder
+export const DOCUMENT_DRAG_TYPE = 'application/x-document-id';
+
+// The collection followed by all of its subcollections, breadth first
+export const getCollectionScope = (collections: Collection[], collectionId: string): string[] => {
+  const scope = [collectionId];
+  for (let i = 0; i < scope.length; i++) {
+    scope.push(...collections.filter(collection => collection.parentId === scope[i]).map(collection => collection.id));
+  }
+  return scope;
+};
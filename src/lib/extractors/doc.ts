@@ -0,0 +1,55 @@
+// Legacy Word 97-2003 files are OLE compound documents. Rather than parsing the
+// FIB and piece table, recover text by scanning for long runs of printable
+// characters in both UTF-16LE and 8-bit (cp1252) encodings and keeping whichever
+// encoding yields more text.
+const MIN_RUN_LENGTH = 8;
+
+const isPrintable = (code: number) =>
+  code === 0x09 || code === 0x0a || code === 0x0d || (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0x24f) || (code >= 0x2010 && code <= 0x2027);
+
+const collectRuns = (codes: Iterable<number>): string[] => {
+  const runs: string[] = [];
+  let current: number[] = [];
+
+  const flush = () => {
+    const run = String.fromCharCode(...current).trim();
+    // Require some letters so binary noise like "!!!!!!!!" is dropped.
+    if (current.length >= MIN_RUN_LENGTH && /[A-Za-zÀ-ɏ]{3}/.test(run)) {
+      runs.push(run);
+    }
+    current = [];
+  };
+
+  for (const code of codes) {
+    if (isPrintable(code)) {
+      current.push(code);
+      if (current.length >= 4096) flush();
+    } else if (current.length) {
+      flush();
+    }
+  }
+  flush();
+
+  return runs;
+};
+
+function* utf16Codes(bytes: Uint8Array) {
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    yield bytes[i] | (bytes[i + 1] << 8);
+  }
+}
+
+export const extractDocText = (data: ArrayBuffer): string => {
+  const bytes = new Uint8Array(data);
+  const wide = collectRuns(utf16Codes(bytes));
+  const narrow = collectRuns(bytes);
+
+  const length = (runs: string[]) => runs.reduce((total, run) => total + run.length, 0);
+  const runs = length(wide) >= length(narrow) ? wide : narrow;
+
+  return runs
+    .join('\n')
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
@@ -0,0 +1,160 @@
+import JSZip from 'jszip';
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+export interface DocxContent {
+  headers: string[];
+  body: string;
+  footers: string[];
+}
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+const childElements = (node: Element, localName?: string): Element[] =>
+  Array.from(node.children).filter(child => !localName || child.localName === localName);
+
+const firstChild = (node: Element, localName: string): Element | undefined =>
+  childElements(node, localName)[0];
+
+const wordAttr = (node: Element | undefined, name: string): string | null =>
+  node ? node.getAttributeNS(WORD_NS, name) ?? node.getAttribute(`w:${name}`) : null;
+
+/**
+ * Maps style ids to heading levels using both the style name ("heading 2",
+ * "Title") and any explicit outline level declared on the style.
+ */
+const readHeadingStyles = (stylesXml: string | undefined): Map<string, number> => {
+  const levels = new Map<string, number>();
+  if (!stylesXml) return levels;
+
+  const styles = parseXml(stylesXml).getElementsByTagNameNS(WORD_NS, 'style');
+  for (const style of Array.from(styles)) {
+    const styleId = wordAttr(style, 'styleId');
+    if (!styleId) continue;
+
+    const name = wordAttr(firstChild(style, 'name'), 'val')?.toLowerCase() ?? '';
+    const outline = wordAttr(firstChild(firstChild(style, 'pPr') ?? style, 'outlineLvl'), 'val');
+    const headingMatch = name.match(/^heading\s*(\d)$/);
+
+    if (name === 'title') {
+      levels.set(styleId, 1);
+    } else if (headingMatch) {
+      levels.set(styleId, Number(headingMatch[1]));
+    } else if (outline !== null && !Number.isNaN(Number(outline))) {
+      levels.set(styleId, Number(outline) + 1);
+    }
+  }
+
+  return levels;
+};
+
+const runText = (run: Element): string =>
+  childElements(run)
+    .map(node => {
+      switch (node.localName) {
+        case 't':
+          return node.textContent ?? '';
+        case 'tab':
+          return '\t';
+        case 'br':
+        case 'cr':
+          return '\n';
+        default:
+          return '';
+      }
+    })
+    .join('');
+
+const paragraphText = (paragraph: Element): string =>
+  Array.from(paragraph.getElementsByTagNameNS(WORD_NS, 'r'))
+    .map(runText)
+    .join('')
+    .trim();
+
+const renderParagraph = (paragraph: Element, headingStyles: Map<string, number>): string => {
+  const text = paragraphText(paragraph);
+  if (!text) return '';
+
+  const properties = firstChild(paragraph, 'pPr');
+  const styleId = wordAttr(properties && firstChild(properties, 'pStyle'), 'val');
+  const outline = wordAttr(properties && firstChild(properties, 'outlineLvl'), 'val');
+  const level = (styleId && headingStyles.get(styleId)) ?? (outline !== null ? Number(outline) + 1 : undefined);
+
+  if (level && level >= 1 && level <= 9) {
+    return `${'#'.repeat(Math.min(level, 6))} ${text}`;
+  }
+  if (properties && firstChild(properties, 'numPr')) {
+    return `- ${text}`;
+  }
+  return text;
+};
+
+const renderTable = (table: Element): string =>
+  childElements(table, 'tr')
+    .map(row =>
+      '| ' +
+      childElements(row, 'tc')
+        .map(cell =>
+          childElements(cell, 'p')
+            .map(paragraphText)
+            .filter(Boolean)
+            .join(' ')
+            .replace(/\|/g, '\\|')
+        )
+        .join(' | ') +
+      ' |'
+    )
+    .join('\n');
+
+const renderBlocks = (container: Element, headingStyles: Map<string, number>): string =>
+  childElements(container)
+    .map(node => {
+      switch (node.localName) {
+        case 'p':
+          return renderParagraph(node, headingStyles);
+        case 'tbl':
+          return renderTable(node);
+        case 'sdt': {
+          const content = firstChild(node, 'sdtContent');
+          return content ? renderBlocks(content, headingStyles) : '';
+        }
+        default:
+          return '';
+      }
+    })
+    .filter(Boolean)
+    .join('\n\n');
+
+const readParts = async (zip: JSZip, pattern: RegExp, headingStyles: Map<string, number>) => {
+  const names = Object.keys(zip.files).filter(name => pattern.test(name)).sort();
+  const parts = await Promise.all(names.map(name => zip.file(name)!.async('string')));
+  return parts
+    .map(xml => renderBlocks(parseXml(xml).documentElement, headingStyles))
+    .filter(Boolean);
+};
+
+export const extractDocxContent = async (data: ArrayBuffer): Promise<DocxContent> => {
+  const zip = await JSZip.loadAsync(data);
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new Error('Not a valid DOCX file: word/document.xml is missing');
+  }
+
+  const headingStyles = readHeadingStyles(await zip.file('word/styles.xml')?.async('string'));
+  const body = parseXml(documentXml).getElementsByTagNameNS(WORD_NS, 'body')[0];
+
+  return {
+    headers: [...new Set(await readParts(zip, /^word\/header\d*\.xml$/, headingStyles))],
+    body: body ? renderBlocks(body, headingStyles) : '',
+    footers: [...new Set(await readParts(zip, /^word\/footer\d*\.xml$/, headingStyles))],
+  };
+};
+
+export const formatDocxContent = ({ headers, body, footers }: DocxContent): string =>
+  [
+    ...headers.map(header => `--- Header ---\n${header}`),
+    body,
+    ...footers.map(footer => `--- Footer ---\n${footer}`),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
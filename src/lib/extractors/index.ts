@@ -0,0 +1,69 @@
+import { extractDocText } from './doc';
+import { extractDocxContent, formatDocxContent } from './docx';
+import { recognizeImage } from './ocr';
+import { DOCX_MIME_TYPE } from './mime';
+import { extractPdf } from './pdf';
+import type { ExtractedPage, ExtractionResult } from './types';
+
+export { detectMimeType } from './mime';
+export type { ExtractedPage, ExtractionResult, OcrResult, OcrWord } from './types';
+
+// Page markers let downstream consumers (analysis, chunking) recover page numbers
+// from the flattened text.
+export const formatPages = (pages: ExtractedPage[]): string =>
+  pages
+    .filter(page => page.text.trim().length > 0)
+    .map(page => `--- Page ${page.pageNumber} ---\n${page.text}`)
+    .join('\n\n');
+
+// mimeType is the sniffed type from detectMimeType; file.type only reflects
+// the extension
+export const extractText = async (file: File, mimeType = file.type): Promise<ExtractionResult> => {
+  if (mimeType.includes('text')) {
+    return { text: await file.text(), method: 'text' };
+  }
+
+  if (mimeType.includes('pdf')) {
+    const { pages, ocr } = await extractPdf(await file.arrayBuffer());
+    const text = formatPages(pages);
+    return {
+      text: text || `PDF document: ${file.name}. Size: ${file.size} bytes. No extractable text found.`,
+      pages,
+      method: ocr ? 'pdf_text_layer+ocr' : 'pdf_text_layer',
+      ocr,
+    };
+  }
+
+  if (mimeType.includes('image')) {
+    const ocr = await recognizeImage(file);
+    return {
+      text: ocr.text || `Image file: ${file.name}. Type: ${mimeType}. No text recognized.`,
+      method: 'ocr',
+      ocr,
+    };
+  }
+
+  const name = file.name.toLowerCase();
+
+  // Only Word documents: xlsx and pptx are openxmlformats too
+  if (mimeType === DOCX_MIME_TYPE || name.endsWith('.docx')) {
+    const text = formatDocxContent(await extractDocxContent(await file.arrayBuffer()));
+    return {
+      text: text || `Document file: ${file.name}. No text content found.`,
+      method: 'docx_xml',
+    };
+  }
+
+  if (mimeType.includes('msword') || name.endsWith('.doc')) {
+    const text = extractDocText(await file.arrayBuffer());
+    return {
+      text: text || `Document file: ${file.name}. No text content could be recovered.`,
+      method: 'doc_binary_scan',
+    };
+  }
+
+  return {
+    text: `File: ${file.name}. Type: ${mimeType}. Size: ${file.size} bytes. Binary content analysis available.`,
+    method: 'placeholder',
+  };
+};
@@ -0,0 +1,46 @@
+// Content sniffing for the handful of formats we handle. Browsers derive
+// File.type from the extension (and leave it empty for unknown ones), so the
+// leading bytes are checked first.
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+const SIGNATURES: Array<{ mimeType: string; bytes: number[]; offset?: number }> = [
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] }, // GIF8
+  { mimeType: 'image/tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { mimeType: 'image/tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { mimeType: 'image/bmp', bytes: [0x42, 0x4d] },
+];
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+// OLE compound file, the container of legacy .doc/.xls/.ppt
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+const isWebp = (bytes: Uint8Array) =>
+  startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8);
+
+export const detectMimeType = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+  const name = file.name.toLowerCase();
+
+  const match = SIGNATURES.find(signature => startsWith(bytes, signature.bytes, signature.offset));
+  if (match) return match.mimeType;
+  if (isWebp(bytes)) return 'image/webp';
+
+  // Office containers can't be told apart by their first bytes alone
+  if (startsWith(bytes, ZIP_SIGNATURE)) {
+    if (name.endsWith('.docx')) return DOCX_MIME_TYPE;
+    return file.type || 'application/zip';
+  }
+  if (startsWith(bytes, CFB_SIGNATURE)) {
+    if (name.endsWith('.doc')) return 'application/msword';
+    return file.type || 'application/x-cfb';
+  }
+
+  return file.type || 'application/octet-stream';
+};
@@ -0,0 +1,58 @@
+import { createWorker, OEM, type Worker, type ImageLike } from 'tesseract.js';
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import type { OcrResult, OcrWord } from './types';
+
+// Language data and the wasm cores are copied into public/ by
+// scripts/copy-ocr-data.mjs, so no request ever leaves our origin.
+const OCR_LANG_PATH = import.meta.env.VITE_OCR_LANG_PATH || '/tesseract';
+// A directory, so tesseract.js loads the SIMD core only where it's supported
+const OCR_CORE_PATH = `${OCR_LANG_PATH}/core`;
+
+let workerPromise: Promise<Worker> | null = null;
+
+const getWorker = () => {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng', OEM.LSTM_ONLY, {
+      workerPath: tesseractWorkerUrl,
+      corePath: OCR_CORE_PATH,
+      langPath: OCR_LANG_PATH,
+      workerBlobURL: false,
+    }).catch(error => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+};
+
+/**
+ * Runs OCR over a single image or rendered page. Confidences are normalised
+ * from Tesseract's 0-100 scale to 0-1 to match the AI confidence.
+ */
+export const recognizeImage = async (image: ImageLike, pageNumber = 1): Promise<OcrResult> => {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+
+  const words: OcrWord[] = (data.blocks ?? [])
+    .flatMap(block => block.paragraphs)
+    .flatMap(paragraph => paragraph.lines)
+    .flatMap(line => line.words)
+    .filter(word => word.text.trim().length > 0)
+    .map(word => ({
+      text: word.text,
+      confidence: word.confidence / 100,
+      bbox: word.bbox,
+      page: pageNumber,
+    }));
+
+  return {
+    text: data.text.trim(),
+    confidence: averageConfidence(words) ?? data.confidence / 100,
+    words,
+  };
+};
+
+export const averageConfidence = (words: OcrWord[]): number | undefined =>
+  words.length > 0
+    ? words.reduce((total, word) => total + word.confidence, 0) / words.length
+    : undefined;
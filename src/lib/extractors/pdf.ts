@@ -0,0 +1,220 @@
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import type { PDFPageProxy, TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { averageConfidence, recognizeImage } from './ocr';
+import type { ExtractedPage, OcrResult } from './types';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // pdf.js saw a line break after this run in the content stream
+  hasEOL: boolean;
+}
+
+// A horizontal stretch of runs on one line, e.g. one column's part of it
+interface Segment {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+// Items whose baselines differ by less than this fraction of the glyph height
+// are treated as belonging to the same line.
+const LINE_TOLERANCE = 0.5;
+
+// pdf.js often splits a word across runs. Runs closer than this fraction of
+// the average glyph width are joined without a space.
+const WORD_GAP = 0.3;
+
+// Gaps wider than this many glyph heights separate columns (or table cells)
+const COLUMN_GAP = 1.5;
+
+// A line only starts a multi-column region when every column holds at least
+// this many words, so table rows with short cells stay rows
+const MIN_COLUMN_WORDS = 3;
+
+// Pages with fewer meaningful characters than this in their text layer are
+// treated as scanned images and sent through OCR.
+const MIN_TEXT_LAYER_CHARS = 10;
+
+// Render scale for OCR; roughly 150 DPI for a standard PDF page.
+const OCR_RENDER_SCALE = 2;
+
+const isTextItem = (item: unknown): item is TextItem =>
+  typeof item === 'object' && item !== null && 'str' in item && 'transform' in item;
+
+const joinRuns = (runs: PositionedText[]): string =>
+  runs
+    .reduce((text, run, index) => {
+      const previous = runs[index - 1];
+      if (!previous) return run.text;
+      const gap = run.x - (previous.x + previous.width);
+      const glyphWidth = previous.width / Math.max(previous.text.length, 1);
+      return text + (previous.hasEOL || gap > glyphWidth * WORD_GAP ? ' ' : '') + run.text;
+    }, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Splits a line (sorted by x) wherever the gap between runs is wide enough to
+// separate columns
+const splitSegments = (line: PositionedText[]): Segment[] => {
+  const groups: PositionedText[][] = [];
+  for (const run of line) {
+    const group = groups[groups.length - 1];
+    const previous = group?.[group.length - 1];
+    if (previous && run.x - (previous.x + previous.width) <= Math.max(previous.height, run.height, 1) * COLUMN_GAP) {
+      group.push(run);
+    } else {
+      groups.push([run]);
+    }
+  }
+  return groups.map(group => ({
+    text: joinRuns(group),
+    x0: group[0].x,
+    x1: Math.max(...group.map(run => run.x + run.width)),
+  }));
+};
+
+const wordCount = (text: string) => text.split(' ').filter(Boolean).length;
+
+/**
+ * Rebuilds reading order from positioned text runs: lines from top to bottom,
+ * runs within a line from left to right. Consecutive lines split into the
+ * same columns are read column by column instead, so two-column layouts
+ * aren't interleaved line by line.
+ */
+const layoutPageText = (items: PositionedText[]): string => {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PositionedText[][] = [];
+
+  for (const item of sorted) {
+    const current = lines[lines.length - 1];
+    const reference = current?.[0];
+    if (reference && Math.abs(reference.y - item.y) <= Math.max(reference.height, item.height, 1) * LINE_TOLERANCE) {
+      current.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  const output: string[] = [];
+  // Left edges of the current region's columns, and the text of each column
+  let columnStarts: number[] = [];
+  let columns: string[][] = [];
+
+  const flushColumns = () => {
+    columns.forEach(column => output.push(...column));
+    columnStarts = [];
+    columns = [];
+  };
+
+  // Which column of the current region a segment falls in; -1 if it crosses
+  // into the next column or starts before the first
+  const columnOf = (segment: Segment) => {
+    const tolerance = (columnStarts[1] - columnStarts[0]) * 0.1;
+    const index = columnStarts.findIndex((start, i) =>
+      segment.x0 >= start - tolerance && segment.x0 < (columnStarts[i + 1] ?? Infinity) - tolerance
+    );
+    const nextStart = columnStarts[index + 1];
+    return index !== -1 && (nextStart === undefined || segment.x1 < nextStart) ? index : -1;
+  };
+
+  for (const line of lines) {
+    const segments = splitSegments(line.sort((a, b) => a.x - b.x)).filter(segment => segment.text);
+    if (segments.length === 0) continue;
+
+    if (columnStarts.length > 0) {
+      const placed = segments.map(columnOf);
+      if (placed.every((index, i) => index !== -1 && (i === 0 || index > placed[i - 1]))) {
+        placed.forEach((index, i) => columns[index].push(segments[i].text));
+        continue;
+      }
+      flushColumns();
+    }
+
+    if (segments.length > 1 && segments.every(segment => wordCount(segment.text) >= MIN_COLUMN_WORDS)) {
+      columnStarts = segments.map(segment => segment.x0);
+      columns = segments.map(segment => [segment.text]);
+    } else {
+      output.push(segments.map(segment => segment.text).join(' '));
+    }
+  }
+  flushColumns();
+
+  return output.join('\n');
+};
+
+export const loadPdf = (data: ArrayBuffer) => getDocument({ data: new Uint8Array(data) }).promise;
+
+const renderPageToCanvas = async (page: PDFPageProxy): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available');
+
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas;
+};
+
+export const extractPdf = async (data: ArrayBuffer): Promise<{ pages: ExtractedPage[]; ocr?: OcrResult }> => {
+  const pdf = await loadPdf(data);
+  const pages: ExtractedPage[] = [];
+  const ocrResults: OcrResult[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = content.items
+        .filter(isTextItem)
+        .filter(item => item.str.trim().length > 0)
+        .map(item => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height,
+          hasEOL: item.hasEOL,
+        }));
+
+      const text = layoutPageText(items);
+      if (text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS) {
+        pages.push({ pageNumber, text, source: 'text_layer' });
+      } else {
+        try {
+          const ocr = await recognizeImage(await renderPageToCanvas(page), pageNumber);
+          ocrResults.push(ocr);
+          pages.push({ pageNumber, text: ocr.text, source: 'ocr' });
+        } catch (error) {
+          console.error(`OCR failed for PDF page ${pageNumber}:`, error);
+          pages.push({ pageNumber, text, source: 'text_layer' });
+        }
+      }
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  if (ocrResults.length === 0) {
+    return { pages };
+  }
+
+  const words = ocrResults.flatMap(result => result.words);
+  return {
+    pages,
+    ocr: {
+      text: ocrResults.map(result => result.text).join('\n\n'),
+      confidence: averageConfidence(words) ?? ocrResults[0].confidence,
+      words,
+    },
+  };
+};
@@ -0,0 +1,25 @@
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+  page: number;
+}
+
+export interface OcrResult {
+  text: string;
+  confidence: number;
+  words: OcrWord[];
+}
+
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+  source?: 'text_layer' | 'ocr';
+}
+
+export interface ExtractionResult {
+  text: string;
+  pages?: ExtractedPage[];
+  method: string;
+  ocr?: OcrResult;
+}
@@ -0,0 +1,75 @@
+import { jsPDF } from 'jspdf';
+import type { PiiSpan } from '@/lib/api';
+
+// Same placeholders the analyzer uses when redacting text for external
+// providers (supabase/functions/_shared/pii.ts)
+const REDACTION_LABELS: Record<PiiSpan['type'], string> = {
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  iban: '[IBAN]',
+  credit_card: '[CARD NUMBER]',
+  national_id: '[ID NUMBER]',
+  address: '[ADDRESS]',
+  person_name: '[NAME]',
+};
+
+export const PII_TYPE_LABELS: Record<PiiSpan['type'], string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  iban: 'IBANs',
+  credit_card: 'Card numbers',
+  national_id: 'National IDs',
+  address: 'Addresses',
+  person_name: 'Names',
+};
+
+export const redactText = (text: string, spans: PiiSpan[]): string => {
+  let redacted = text;
+  for (const span of [...spans].sort((a, b) => b.start - a.start)) {
+    redacted = redacted.slice(0, span.start) + REDACTION_LABELS[span.type] + redacted.slice(span.end);
+  }
+  return redacted;
+};
+
+const toExportName = (filename: string, extension: string) =>
+  `${filename.replace(/\.[^.]+$/, '')}-redacted.${extension}`;
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportRedactedText = (filename: string, redacted: string) => {
+  downloadBlob(new Blob([redacted], { type: 'text/plain;charset=utf-8' }), toExportName(filename, 'txt'));
+};
+
+const PDF_MARGIN = 40;
+const PDF_FONT_SIZE = 10;
+const PDF_LINE_HEIGHT = 14;
+
+// Plain text rendering; the original layout isn't reproduced
+export const exportRedactedPdf = (filename: string, redacted: string) => {
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+  const width = pdf.internal.pageSize.getWidth() - PDF_MARGIN * 2;
+  const bottom = pdf.internal.pageSize.getHeight() - PDF_MARGIN;
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(PDF_FONT_SIZE);
+
+  let y = PDF_MARGIN;
+  for (const line of pdf.splitTextToSize(redacted, width) as string[]) {
+    if (y > bottom) {
+      pdf.addPage();
+      y = PDF_MARGIN;
+    }
+    pdf.text(line, PDF_MARGIN, y);
+    y += PDF_LINE_HEIGHT;
+  }
+
+  pdf.save(toExportName(filename, 'pdf'));
+};
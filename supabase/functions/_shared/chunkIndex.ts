@@ -0,0 +1,108 @@
+// Stores retrieval chunks of the document with their embeddings, replacing
+// any from an earlier analysis. Chunks are kept even when no embedding
+// provider is available; backfill-documents embeds them later.
+import type { createAdminClient } from './supabaseAdmin.ts';
+import { chunkForRetrieval } from './chunking.ts';
+import { toVectorLiteral, type EmbeddingProvider } from './embeddings/index.ts';
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+const EMBEDDING_BATCH_SIZE = 16;
+
+interface ChunkIndexInput {
+  fileId: string;
+  userId: string;
+  // documents.extracted_text; chunk offsets refer to it
+  text: string;
+  // Applied to what is sent to the provider, not to the stored chunk
+  prepareForProvider?: (content: string) => string;
+}
+
+export const indexDocumentChunks = async (
+  supabase: AdminClient,
+  provider: EmbeddingProvider | null,
+  { fileId, userId, text, prepareForProvider = content => content }: ChunkIndexInput
+): Promise<{ chunks: number; embedded: number }> => {
+  const chunks = chunkForRetrieval(text);
+
+  let embeddings: (number[] | null)[] = chunks.map(() => null);
+  if (provider && chunks.length > 0 && await provider.healthCheck()) {
+    try {
+      const vectors: number[][] = [];
+      for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE).map(chunk => prepareForProvider(chunk.content));
+        vectors.push(...await provider.embed(batch));
+      }
+      embeddings = vectors;
+    } catch (error) {
+      console.error(`Embedding with ${provider.name} failed, storing chunks without vectors:`, error);
+    }
+  }
+
+  const { error: clearError } = await supabase
+    .from('document_chunks')
+    .delete()
+    .eq('file_id', fileId);
+
+  if (clearError) throw clearError;
+  if (chunks.length === 0) return { chunks: 0, embedded: 0 };
+
+  const { error: insertError } = await supabase
+    .from('document_chunks')
+    .insert(chunks.map((chunk, i) => ({
+      file_id: fileId,
+      user_id: userId,
+      chunk_index: chunk.index,
+      content: chunk.content,
+      start_offset: chunk.start,
+      end_offset: chunk.end,
+      page: chunk.page,
+      embedding: embeddings[i] ? toVectorLiteral(embeddings[i]!) : null,
+      embedding_model: embeddings[i] ? provider!.model : null,
+    })));
+
+  if (insertError) throw insertError;
+  return { chunks: chunks.length, embedded: embeddings.filter(Boolean).length };
+};
+
+interface PendingChunk {
+  id: string;
+  user_id: string;
+  content: string;
+}
+
+/**
+ * Embeds stored chunks that have no vector, or one from a model other than
+ * the provider's, e.g. after EMBEDDING_PROVIDER changed. Returns how many
+ * chunks were embedded; 0 once none are left.
+ */
+export const embedPendingChunks = async (
+  supabase: AdminClient,
+  provider: EmbeddingProvider,
+  prepareForUser: (userId: string) => Promise<(content: string) => string>,
+  limit = EMBEDDING_BATCH_SIZE
+): Promise<number> => {
+  const { data, error } = await supabase
+    .from('document_chunks')
+    .select('id, user_id, content')
+    .or(`embedding.is.null,embedding_model.neq."${provider.model}"`)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+  const chunks = (data ?? []) as PendingChunk[];
+  if (chunks.length === 0) return 0;
+
+  const prepared = await Promise.all(chunks.map(async chunk => (await prepareForUser(chunk.user_id))(chunk.content)));
+  const vectors = await provider.embed(prepared);
+
+  for (const [i, chunk] of chunks.entries()) {
+    const { error: updateError } = await supabase
+      .from('document_chunks')
+      .update({ embedding: toVectorLiteral(vectors[i]), embedding_model: provider.model })
+      .eq('id', chunk.id);
+
+    if (updateError) throw updateError;
+  }
+  return chunks.length;
+};
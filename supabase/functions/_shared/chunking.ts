@@ -0,0 +1,57 @@
+// Retrieval chunks: small enough that a match points at one passage, with
+// offsets into the stored text and the page taken from the extractor's
+// "--- Page N ---" markers.
+
+export interface TextChunk {
+  index: number;
+  content: string;
+  start: number;
+  end: number;
+  page: number | null;
+}
+
+const PAGE_MARKER = /--- Page (\d+) ---/g;
+
+const DEFAULT_CHUNK_CHARS = 1000;
+const DEFAULT_OVERLAP_CHARS = 150;
+
+// Prefer ending a chunk at a paragraph or sentence break in its last third
+const findBreak = (text: string, start: number, end: number) => {
+  if (end >= text.length) return text.length;
+  const window = text.slice(start, end);
+  const minimum = Math.floor(window.length * 0.66);
+  for (const separator of ['\n\n', '\n', '. ']) {
+    const position = window.lastIndexOf(separator);
+    if (position >= minimum) return start + position + separator.length;
+  }
+  return end;
+};
+
+export const chunkForRetrieval = (
+  text: string,
+  chunkChars = DEFAULT_CHUNK_CHARS,
+  overlapChars = DEFAULT_OVERLAP_CHARS
+): TextChunk[] => {
+  const markers = [...text.matchAll(PAGE_MARKER)].map(match => ({ offset: match.index ?? 0, page: Number(match[1]) }));
+  const pageAt = (offset: number) => {
+    let page: number | null = markers.length > 0 ? markers[0].page : null;
+    for (const marker of markers) {
+      if (marker.offset > offset) break;
+      page = marker.page;
+    }
+    return page;
+  };
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+  while (start < text.length) {
+    const end = findBreak(text, start, Math.min(start + chunkChars, text.length));
+    const content = text.slice(start, end).trim();
+    if (content.replace(PAGE_MARKER, '').trim()) {
+      chunks.push({ index: chunks.length, content, start, end, page: pageAt(start) });
+    }
+    if (end >= text.length) break;
+    start = Math.max(end - overlapChars, start + 1);
+  }
+  return chunks;
+};
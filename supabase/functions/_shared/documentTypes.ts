@@ -0,0 +1,53 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface DocumentTypeDefinition {
+  name: string;
+  description: string;
+  examples: string[];
+  // Key of the field/line-item schema extraction uses for this type
+  extractionSchema: string | null;
+}
+
+// Catch-all the analyzer falls back to; always part of the taxonomy
+export const FALLBACK_DOCUMENT_TYPE = 'other';
+
+// Used when an account has no taxonomy rows (e.g. created before seeding)
+export const DOCUMENT_TYPES = [
+  'report', 'contract', 'invoice', 'letter', 'presentation',
+  'technical_doc', 'academic', 'legal', 'financial', FALLBACK_DOCUMENT_TYPE,
+];
+
+// Default types whose extraction schema shares their name
+const SCHEMA_DOCUMENT_TYPES = ['invoice', 'contract', 'letter', 'financial', 'legal', 'academic'];
+
+export const defaultDocumentTypes = (): DocumentTypeDefinition[] =>
+  DOCUMENT_TYPES.map(name => ({
+    name,
+    description: '',
+    examples: [],
+    extractionSchema: SCHEMA_DOCUMENT_TYPES.includes(name) ? name : null,
+  }));
+
+/**
+ * The account's editable taxonomy (document_types), in creation order, with
+ * the fallback type guaranteed to be present.
+ */
+export const loadDocumentTypes = async (supabase: SupabaseClient, userId: string): Promise<DocumentTypeDefinition[]> => {
+  const { data, error } = await supabase
+    .from('document_types')
+    .select('name, description, examples, extraction_schema')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to load document types, using defaults:', error);
+  }
+
+  const types: DocumentTypeDefinition[] = data?.length
+    ? data.map(({ extraction_schema, ...type }) => ({ ...type, extractionSchema: extraction_schema }))
+    : defaultDocumentTypes();
+
+  return types.some(type => type.name === FALLBACK_DOCUMENT_TYPE)
+    ? types
+    : [...types, { name: FALLBACK_DOCUMENT_TYPE, description: 'Anything that fits none of the other types', examples: [], extractionSchema: null }];
+};
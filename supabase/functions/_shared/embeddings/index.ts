@@ -0,0 +1,58 @@
+import { createOllamaEmbeddingProvider } from './ollama.ts';
+import { createOpenAIEmbeddingProvider } from './openai.ts';
+import type { EmbeddingProvider } from './types.ts';
+
+export type { EmbeddingProvider } from './types.ts';
+
+// Must match document_chunks.embedding (vector(768))
+export const EMBEDDING_DIMENSIONS = 768;
+
+const DEFAULT_EMBEDDING_PROVIDER = 'ollama';
+
+const providerFactories: Record<string, () => EmbeddingProvider | null> = {
+  ollama: () => {
+    const url = Deno.env.get('OLLAMA_URL');
+    if (!url || url === 'disabled') return null;
+    return createOllamaEmbeddingProvider({ url, model: Deno.env.get('OLLAMA_EMBEDDING_MODEL') || 'nomic-embed-text' });
+  },
+  openai: () => {
+    const apiKey = Deno.env.get('OPENAI_API_KEY');
+    if (!apiKey) return null;
+    return createOpenAIEmbeddingProvider({
+      apiKey,
+      model: Deno.env.get('OPENAI_EMBEDDING_MODEL') || 'text-embedding-3-small',
+      dimensions: EMBEDDING_DIMENSIONS,
+    });
+  },
+  openai_compatible: () => {
+    const baseUrl = Deno.env.get('OPENAI_COMPATIBLE_URL');
+    if (!baseUrl) return null;
+    return createOpenAIEmbeddingProvider({
+      name: 'openai_compatible',
+      baseUrl,
+      apiKey: Deno.env.get('OPENAI_COMPATIBLE_API_KEY'),
+      model: Deno.env.get('OPENAI_COMPATIBLE_EMBEDDING_MODEL') || 'local-embedding-model',
+      dimensions: EMBEDDING_DIMENSIONS,
+      external: false,
+    });
+  },
+};
+
+/**
+ * The provider named by EMBEDDING_PROVIDER. Unlike LLM providers there is no
+ * fallback chain: indexing and search have to use the same model, so a
+ * different provider can't stand in for an unavailable one. Returns null when
+ * the provider is unknown or unconfigured.
+ */
+export const createEmbeddingProvider = (): EmbeddingProvider | null => {
+  const name = (Deno.env.get('EMBEDDING_PROVIDER') || DEFAULT_EMBEDDING_PROVIDER).trim().toLowerCase();
+  const factory = providerFactories[name];
+  if (!factory) {
+    console.warn(`Unknown embedding provider "${name}" in EMBEDDING_PROVIDER`);
+    return null;
+  }
+  return factory();
+};
+
+// pgvector accepts vectors in their text form
+export const toVectorLiteral = (embedding: number[]) => `[${embedding.join(',')}]`;
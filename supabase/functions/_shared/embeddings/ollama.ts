@@ -0,0 +1,15 @@
+import { isReachable, postJson } from '../llm/http.ts';
+import type { EmbeddingProvider } from './types.ts';
+
+export const createOllamaEmbeddingProvider = ({ url, model }: { url: string; model: string }): EmbeddingProvider => ({
+  name: 'ollama',
+  model,
+  external: false,
+
+  async embed(texts) {
+    const result = await postJson(`${url}/api/embed`, { model, input: texts });
+    return result.embeddings;
+  },
+
+  healthCheck: () => isReachable(`${url}/api/tags`),
+});
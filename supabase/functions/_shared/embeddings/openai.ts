@@ -0,0 +1,39 @@
+import { isReachable, postJson } from '../llm/http.ts';
+import type { EmbeddingProvider } from './types.ts';
+
+interface OpenAIEmbeddingOptions {
+  apiKey?: string;
+  model: string;
+  dimensions: number;
+  baseUrl?: string;
+  name?: string;
+  external?: boolean;
+}
+
+/** /embeddings endpoint of OpenAI or an OpenAI-compatible server. */
+export const createOpenAIEmbeddingProvider = ({
+  apiKey,
+  model,
+  dimensions,
+  baseUrl = 'https://api.openai.com/v1',
+  name = 'openai',
+  external = true,
+}: OpenAIEmbeddingOptions): EmbeddingProvider => {
+  const headers: Record<string, string> = apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+
+  return {
+    name,
+    model,
+    external,
+
+    async embed(texts) {
+      // text-embedding-3 models can shorten their output to the column size
+      const result = await postJson(`${baseUrl}/embeddings`, { model, input: texts, dimensions }, headers);
+      return result.data
+        .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+        .map((item: { embedding: number[] }) => item.embedding);
+    },
+
+    healthCheck: () => isReachable(`${baseUrl}/models`, headers),
+  };
+};
@@ -0,0 +1,9 @@
+export interface EmbeddingProvider {
+  name: string;
+  // Recorded with every vector; vectors from different models aren't comparable
+  model: string;
+  // Requests leave our infrastructure (relevant for data handling settings)
+  external: boolean;
+  embed(texts: string[]): Promise<number[][]>;
+  healthCheck(): Promise<boolean>;
+}
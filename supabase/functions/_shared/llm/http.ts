@@ -0,0 +1,28 @@
+// Shared fetch helpers for provider implementations
+
+const HEALTH_CHECK_TIMEOUT_MS = 3000;
+
+export const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`${url} responded with ${response.status}${errorText ? `: ${errorText.slice(0, 200)}` : ''}`);
+  }
+
+  return response.json();
+};
+
+export const isReachable = async (url: string, headers: Record<string, string> = {}) => {
+  try {
+    const response = await fetch(url, { headers, signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS) });
+    await response.body?.cancel();
+    return response.ok;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,108 @@
+import { createLlamaCppProvider } from './llamacpp.ts';
+import { createOllamaProvider } from './ollama.ts';
+import { createOpenAIProvider } from './openai.ts';
+import { createStubProvider } from './stub.ts';
+import type { LLMProvider } from './types.ts';
+
+export type { LLMProvider, LLMRequest, LLMResponse, ProviderCapabilities } from './types.ts';
+
+const DEFAULT_PROVIDER_CHAIN = 'ollama,openai';
+
+// How long a health check result is trusted before the provider is probed again
+const HEALTH_CHECK_TTL_MS = 60_000;
+
+// Each factory returns null when the provider isn't configured, so it is
+// silently left out of the chain.
+const providerFactories: Record<string, () => LLMProvider | null> = {
+  ollama: () => {
+    const url = Deno.env.get('OLLAMA_URL');
+    if (!url || url === 'disabled') return null;
+    return createOllamaProvider({ url, model: Deno.env.get('OLLAMA_MODEL') || 'llama3.2' });
+  },
+  openai: () => {
+    const apiKey = Deno.env.get('OPENAI_API_KEY');
+    if (!apiKey) return null;
+    return createOpenAIProvider({ apiKey, model: Deno.env.get('OPENAI_MODEL') || 'gpt-4o-mini' });
+  },
+  openai_compatible: () => {
+    const baseUrl = Deno.env.get('OPENAI_COMPATIBLE_URL');
+    if (!baseUrl) return null;
+    return createOpenAIProvider({
+      name: 'openai_compatible',
+      baseUrl,
+      apiKey: Deno.env.get('OPENAI_COMPATIBLE_API_KEY'),
+      model: Deno.env.get('OPENAI_COMPATIBLE_MODEL') || 'local-model',
+      external: false,
+    });
+  },
+  llamacpp: () => {
+    const url = Deno.env.get('LLAMACPP_URL');
+    if (!url) return null;
+    return createLlamaCppProvider({ url });
+  },
+  stub: () => createStubProvider(),
+};
+
+/**
+ * Builds the ordered fallback chain from LLM_PROVIDERS, e.g.
+ * "openai_compatible,ollama,openai". Unknown or unconfigured names are skipped.
+ */
+export const createProviderChain = (): LLMProvider[] => {
+  const names = (Deno.env.get('LLM_PROVIDERS') || DEFAULT_PROVIDER_CHAIN)
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return names.flatMap(name => {
+    const factory = providerFactories[name];
+    if (!factory) {
+      console.warn(`Unknown LLM provider "${name}" in LLM_PROVIDERS, skipping`);
+      return [];
+    }
+    const provider = factory();
+    return provider ? [provider] : [];
+  });
+};
+
+// Per provider name, so results carry over between calls in the same isolate
+const healthChecks = new Map<string, { healthy: Promise<boolean>; checkedAt: number }>();
+
+export const isHealthy = (provider: LLMProvider): Promise<boolean> => {
+  const cached = healthChecks.get(provider.name);
+  if (cached && Date.now() - cached.checkedAt < HEALTH_CHECK_TTL_MS) return cached.healthy;
+
+  const healthy = provider.healthCheck().catch(() => false);
+  healthChecks.set(provider.name, { healthy, checkedAt: Date.now() });
+  return healthy;
+};
+
+/**
+ * Runs task against each provider in order until one succeeds. Providers that
+ * fail their health check are skipped without spending a full request on them;
+ * the check is cached for HEALTH_CHECK_TTL_MS, so callers can fall back per
+ * request without probing every provider each time.
+ */
+export const runWithFallback = async <T>(
+  providers: LLMProvider[],
+  task: (provider: LLMProvider) => Promise<T>
+): Promise<{ result: T; provider: LLMProvider; position: number }> => {
+  const failures: string[] = [];
+
+  for (const [position, provider] of providers.entries()) {
+    if (!(await isHealthy(provider))) {
+      console.warn(`LLM provider ${provider.name} failed its health check`);
+      failures.push(`${provider.name}: unhealthy`);
+      continue;
+    }
+
+    try {
+      console.log(`Running with LLM provider ${provider.name}...`);
+      return { result: await task(provider), provider, position };
+    } catch (error) {
+      console.error(`LLM provider ${provider.name} failed:`, error);
+      failures.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  throw new Error(providers.length ? `All LLM providers failed (${failures.join('; ')})` : 'No LLM provider configured');
+};
@@ -0,0 +1,24 @@
+import { isReachable, postJson } from './http.ts';
+import type { LLMProvider } from './types.ts';
+
+// Native llama.cpp server API (`llama-server`), which supports grammar-constrained
+// JSON output through json_schema.
+export const createLlamaCppProvider = ({ url }: { url: string }): LLMProvider => ({
+  name: 'llamacpp',
+  capabilities: { jsonMode: true, external: false, maxContextChars: 12000 },
+
+  async analyze({ prompt, system, json, temperature = 0.3, maxTokens = 1500 }) {
+    const startedAt = Date.now();
+    const result = await postJson(`${url}/completion`, {
+      prompt: system ? `${system}\n\n${prompt}` : prompt,
+      n_predict: maxTokens,
+      temperature,
+      json_schema: json ? { type: 'object' } : undefined,
+      stream: false,
+    });
+
+    return { text: result.content, model: result.model ?? 'llama.cpp', latencyMs: Date.now() - startedAt };
+  },
+
+  healthCheck: () => isReachable(`${url}/health`),
+});
@@ -0,0 +1,26 @@
+import { isReachable, postJson } from './http.ts';
+import type { LLMProvider } from './types.ts';
+
+export const createOllamaProvider = ({ url, model }: { url: string; model: string }): LLMProvider => ({
+  name: 'ollama',
+  capabilities: { jsonMode: true, external: false, maxContextChars: 12000 },
+
+  async analyze({ prompt, system, json, temperature = 0.3 }) {
+    const startedAt = Date.now();
+    const result = await postJson(`${url}/api/generate`, {
+      model,
+      prompt,
+      system,
+      format: json ? 'json' : undefined,
+      stream: false,
+      options: {
+        temperature,
+        num_ctx: 4096,
+      },
+    });
+
+    return { text: result.response, model, latencyMs: Date.now() - startedAt };
+  },
+
+  healthCheck: () => isReachable(`${url}/api/tags`),
+});
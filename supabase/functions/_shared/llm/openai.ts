@@ -0,0 +1,47 @@
+import { isReachable, postJson } from './http.ts';
+import type { LLMProvider } from './types.ts';
+
+interface OpenAIProviderOptions {
+  apiKey?: string;
+  model: string;
+  baseUrl?: string;
+  name?: string;
+  external?: boolean;
+}
+
+/**
+ * Chat-completions provider. Also used for self-hosted OpenAI-compatible
+ * servers (vLLM, LM Studio, LocalAI, ...) by passing a different baseUrl.
+ */
+export const createOpenAIProvider = ({
+  apiKey,
+  model,
+  baseUrl = 'https://api.openai.com/v1',
+  name = 'openai',
+  external = true,
+}: OpenAIProviderOptions): LLMProvider => {
+  const headers: Record<string, string> = apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+
+  return {
+    name,
+    capabilities: { jsonMode: true, external, maxContextChars: 48000 },
+
+    async analyze({ prompt, system, json, temperature = 0.3, maxTokens = 1500 }) {
+      const startedAt = Date.now();
+      const result = await postJson(`${baseUrl}/chat/completions`, {
+        model,
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          { role: 'user', content: prompt },
+        ],
+        response_format: json ? { type: 'json_object' } : undefined,
+        temperature,
+        max_tokens: maxTokens,
+      }, headers);
+
+      return { text: result.choices[0].message.content, model, latencyMs: Date.now() - startedAt };
+    },
+
+    healthCheck: () => isReachable(`${baseUrl}/models`, headers),
+  };
+};
@@ -0,0 +1,31 @@
+import type { LLMProvider } from './types.ts';
+
+// Deterministic provider for local development and tests: never calls out and
+// returns the same output for the same prompt.
+export const createStubProvider = (): LLMProvider => ({
+  name: 'stub',
+  capabilities: { jsonMode: true, external: false, maxContextChars: 100000 },
+
+  async analyze({ prompt, json }) {
+    const excerpt = prompt.replace(/\s+/g, ' ').trim().slice(0, 200);
+
+    if (!json) {
+      return { text: `Stub response for: ${excerpt}`, model: 'stub', latencyMs: 0 };
+    }
+
+    return {
+      text: JSON.stringify({
+        summary: `Stub analysis. ${excerpt}`,
+        key_points: ['Generated by the stub provider'],
+        document_type: 'other',
+        confidence: 0.5,
+        topics: ['stub'],
+        metadata: {},
+      }),
+      model: 'stub',
+      latencyMs: 0,
+    };
+  },
+
+  healthCheck: async () => true,
+});
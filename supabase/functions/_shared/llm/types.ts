@@ -0,0 +1,30 @@
+export interface LLMRequest {
+  prompt: string;
+  system?: string;
+  // Ask the provider to constrain output to a JSON object
+  json?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  latencyMs: number;
+}
+
+export interface ProviderCapabilities {
+  // Provider natively constrains output to JSON
+  jsonMode: boolean;
+  // Requests leave our infrastructure (relevant for data handling settings)
+  external: boolean;
+  // Rough context budget in characters for prompt building
+  maxContextChars: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  capabilities: ProviderCapabilities;
+  analyze(request: LLMRequest): Promise<LLMResponse>;
+  healthCheck(): Promise<boolean>;
+}
@@ -0,0 +1,235 @@
+// Personal data detection. Regex candidates are confirmed with checksum or
+// format rules where one exists (IBAN mod-97, Luhn, BSN 11-proof, SSN ranges).
+// Spans are character offsets into the text they were found in.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type PiiType = 'email' | 'phone' | 'iban' | 'credit_card' | 'national_id' | 'address' | 'person_name';
+
+export interface PiiSpan {
+  type: PiiType;
+  start: number;
+  end: number;
+  confidence: number;
+  detector: 'regex' | 'llm';
+}
+
+export const PII_TYPES: PiiType[] = ['email', 'phone', 'iban', 'credit_card', 'national_id', 'address', 'person_name'];
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+export const isValidIban = (value: string): boolean => {
+  const iban = value.replace(/\s+/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  // Letters become 10..35; the remainder is computed piecewise to stay in range
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of code) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+// IBAN length per country (ISO 13616 registry) for the countries we expect;
+// others fall back to trying every valid length
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AT: 20, BE: 16, BG: 22, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18, EE: 20,
+  ES: 24, FI: 18, FR: 27, GB: 22, GI: 23, GR: 27, HR: 21, HU: 28, IE: 22, IS: 26,
+  IT: 27, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28,
+  PT: 25, RO: 24, SE: 24, SI: 19, SK: 24, SM: 27, TR: 26,
+};
+
+// The start of match holding count IBAN characters, spaces included
+const takeIbanChars = (match: string, count: number): string | null => {
+  let seen = 0;
+  for (let index = 0; index < match.length; index++) {
+    if (match[index] !== ' ') seen++;
+    if (seen === count) return match.slice(0, index + 1);
+  }
+  return null;
+};
+
+/**
+ * The IBAN at the start of a candidate match. The pattern also runs on into
+ * following capitalized words ("NL91 ABNA 0417 1643 00 INVOICE"), so the
+ * candidate is cut to the country's length, or to the longest prefix that
+ * passes mod-97 when the country isn't listed.
+ */
+export const trimIban = (match: string): string | null => {
+  const known = IBAN_LENGTHS[match.slice(0, 2)];
+  const lengths = known ? [known] : Array.from({ length: 34 - 15 + 1 }, (_, index) => 34 - index);
+  for (const length of lengths) {
+    const candidate = takeIbanChars(match, length);
+    if (candidate && isValidIban(candidate)) return candidate;
+  }
+  return null;
+};
+
+export const passesLuhn = (value: string): boolean => {
+  const digits = digitsOf(value);
+  if (digits.length < 13 || digits.length > 19 || /^(\d)\1+$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Dutch citizen service number (BSN) "11-proof"
+const passesElfproef = (value: string): boolean => {
+  const digits = digitsOf(value);
+  if (digits.length !== 9) return false;
+  const sum = [...digits].reduce((total, digit, index) => total + Number(digit) * (index === 8 ? -1 : 9 - index), 0);
+  return sum !== 0 && sum % 11 === 0;
+};
+
+const isValidSsn = (value: string): boolean => {
+  const [area, group, serial] = value.split('-');
+  return area !== '000' && area !== '666' && area[0] !== '9' && group !== '00' && serial !== '0000';
+};
+
+interface PiiPattern {
+  type: PiiType;
+  pattern: RegExp;
+  confidence: number;
+  // Cuts a match down to the part that is personal data; null rejects it
+  trim?: (match: string) => string | null;
+  validate?: (match: string, text: string, index: number) => boolean;
+}
+
+// A BSN is just nine digits, so it needs a nearby keyword as well
+const hasKeywordBefore = (keywords: RegExp) => (_match: string, text: string, index: number) =>
+  keywords.test(text.slice(Math.max(0, index - 40), index));
+
+const PATTERNS: PiiPattern[] = [
+  { type: 'email', pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, confidence: 0.99 },
+  { type: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}/g, confidence: 0.99, trim: trimIban },
+  { type: 'credit_card', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, confidence: 0.95, validate: passesLuhn },
+  { type: 'national_id', pattern: /\b\d{3}-\d{2}-\d{4}\b/g, confidence: 0.9, validate: isValidSsn },
+  {
+    type: 'national_id',
+    pattern: /\b\d{4}\.?\d{2}\.?\d{3}\b/g,
+    confidence: 0.9,
+    validate: (match, text, index) => passesElfproef(match) && hasKeywordBefore(/\b(bsn|burgerservicenummer|sofi)/i)(match, text, index),
+  },
+  // UK National Insurance number
+  { type: 'national_id', pattern: /\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g, confidence: 0.8 },
+  {
+    type: 'phone',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{1,4}(?:[\s.-]?\d{1,4}){2,5}\b/g,
+    confidence: 0.75,
+    // Leading + or 0 and a plausible length; rules out dates, amounts and ids
+    validate: (match) => /^[+(0]/.test(match) && digitsOf(match).length >= 9 && digitsOf(match).length <= 15,
+  },
+  {
+    type: 'address',
+    pattern: /\b\d{1,5}\s+(?:[A-Z][a-z]+\s){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl)\b/g,
+    confidence: 0.7,
+  },
+  {
+    type: 'address',
+    pattern: /\b[A-Z][a-zäöüß]+(?:straat|weg|laan|plein|gracht|straße|strasse|gasse|allee)\s+\d{1,5}[a-zA-Z]?\b/g,
+    confidence: 0.7,
+  },
+];
+
+// Overlapping spans keep the more confident one (validated formats win over
+// the generic phone pattern)
+export const resolveOverlaps = (spans: PiiSpan[]): PiiSpan[] => {
+  const kept: PiiSpan[] = [];
+  for (const span of [...spans].sort((a, b) => b.confidence - a.confidence || (b.end - b.start) - (a.end - a.start))) {
+    if (!kept.some(other => span.start < other.end && other.start < span.end)) kept.push(span);
+  }
+  return kept.sort((a, b) => a.start - b.start);
+};
+
+export const detectPii = (text: string): PiiSpan[] => {
+  const spans: PiiSpan[] = [];
+  for (const { type, pattern, confidence, trim, validate } of PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const index = match.index ?? 0;
+      const value = trim ? trim(match[0]) : match[0];
+      if (!value || (validate && !validate(value, text, index))) continue;
+      spans.push({ type, start: index, end: index + value.length, confidence, detector: 'regex' });
+    }
+  }
+  return resolveOverlaps(spans);
+};
+
+const REDACTION_LABELS: Record<PiiType, string> = {
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  iban: '[IBAN]',
+  credit_card: '[CARD NUMBER]',
+  national_id: '[ID NUMBER]',
+  address: '[ADDRESS]',
+  person_name: '[NAME]',
+};
+
+export const redactText = (text: string, spans: PiiSpan[]): string => {
+  let redacted = text;
+  for (const span of [...spans].sort((a, b) => b.start - a.start)) {
+    redacted = redacted.slice(0, span.start) + REDACTION_LABELS[span.type] + redacted.slice(span.end);
+  }
+  return redacted;
+};
+
+/**
+ * Replaces the document's stored spans and stamps documents.pii_scanned_at,
+ * which redacted exports wait for. Offsets refer to extracted_text.
+ */
+export const savePiiSpans = async (supabase: SupabaseClient, fileId: string, userId: string, spans: PiiSpan[]) => {
+  const { error: clearError } = await supabase
+    .from('document_pii')
+    .delete()
+    .eq('file_id', fileId);
+
+  if (clearError) throw new Error(`Failed to clear previous PII spans: ${clearError.message}`);
+
+  if (spans.length > 0) {
+    const { error: insertError } = await supabase
+      .from('document_pii')
+      .insert(spans.map(span => ({
+        file_id: fileId,
+        user_id: userId,
+        pii_type: span.type,
+        start_offset: span.start,
+        end_offset: span.end,
+        confidence: span.confidence,
+        detector: span.detector,
+      })));
+
+    if (insertError) throw new Error(`Failed to save PII spans: ${insertError.message}`);
+  }
+
+  const { error: stampError } = await supabase
+    .from('documents')
+    .update({ pii_scanned_at: new Date().toISOString() })
+    .eq('file_id', fileId);
+
+  if (stampError) throw new Error(`Failed to mark PII scan: ${stampError.message}`);
+};
+
+export interface PiiSettings {
+  // Providers with capabilities.external only ever see redacted text
+  redactExternal: boolean;
+  llmAssist: boolean;
+}
+
+export const loadPiiSettings = async (supabase: SupabaseClient, userId: string): Promise<PiiSettings> => {
+  const { data } = await supabase
+    .from('account_settings')
+    .select('redact_external_providers, pii_llm_assist')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return {
+    redactExternal: data?.redact_external_providers ?? false,
+    llmAssist: data?.pii_llm_assist ?? false,
+  };
+};
@@ -0,0 +1,48 @@
+// Semantic retrieval over the caller's document chunks. Pass a user client:
+// match_document_chunks only returns the signed-in user's chunks.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { toVectorLiteral, type EmbeddingProvider } from './embeddings/index.ts';
+
+export interface ChunkMatch {
+  file_id: string;
+  chunk_index: number;
+  content: string;
+  start_offset: number;
+  end_offset: number;
+  page: number | null;
+  similarity: number;
+}
+
+interface RetrievalOptions {
+  matchCount?: number;
+  minSimilarity?: number;
+}
+
+export const retrieveChunks = async (
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  query: string,
+  { matchCount = 20, minSimilarity = 0.3 }: RetrievalOptions = {}
+): Promise<ChunkMatch[]> => {
+  const [embedding] = await provider.embed([query]);
+
+  const { data, error } = await supabase.rpc('match_document_chunks', {
+    query_embedding: toVectorLiteral(embedding),
+    embedding_model: provider.model,
+    match_count: matchCount,
+    min_similarity: minSimilarity,
+  });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+// The best-matching chunk of each document, best documents first
+export const bestChunkPerDocument = (matches: ChunkMatch[]): ChunkMatch[] => {
+  const best = new Map<string, ChunkMatch>();
+  for (const match of matches) {
+    const current = best.get(match.file_id);
+    if (!current || match.similarity > current.similarity) best.set(match.file_id, match);
+  }
+  return [...best.values()].sort((a, b) => b.similarity - a.similarity);
+};
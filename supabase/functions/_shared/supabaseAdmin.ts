@@ -0,0 +1,23 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Service-role client for server-side work that has to bypass RLS (claiming
+// queue jobs, writing analysis results). Never expose this key to the browser.
+export const createAdminClient = () => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be configured');
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+};
+
+// True when the request carries the service-role key as its bearer token, as
+// internal calls between functions do. A user's JWT or the anon key does not.
+export const isServiceRoleRequest = (req: Request) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!serviceRoleKey && req.headers.get('Authorization') === `Bearer ${serviceRoleKey}`;
+};
@@ -0,0 +1,17 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Client that acts as the calling user: the request's Authorization header is
+// forwarded, so RLS applies exactly as it does in the browser.
+export const createUserClient = (req: Request) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+  if (!supabaseUrl || !anonKey) {
+    throw new Error('SUPABASE_URL and SUPABASE_ANON_KEY must be configured');
+  }
+
+  return createClient(supabaseUrl, anonKey, {
+    auth: { persistSession: false },
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+};
@@ -0,0 +1,213 @@
+// Typed field extraction, run once a document has been classified. Types with
+// a schema get a second, focused prompt; other types (including custom ones
+// from the account's taxonomy) keep only the free-form metadata.
+import type { LLMProvider } from '../_shared/llm/index.ts';
+import { repairJsonText } from './schema.ts';
+
+export type FieldType = 'text' | 'number' | 'date' | 'list';
+
+export interface FieldDefinition {
+  key: string;
+  label: string;
+  type: FieldType;
+  description: string;
+}
+
+// One row of document_fields, minus the ids
+export interface ExtractedField {
+  field_key: string;
+  field_label: string;
+  field_type: FieldType;
+  position: number;
+  value_text: string;
+  value_number: number | null;
+  value_date: string | null;
+  value_list: string[] | null;
+  confidence: number | null;
+}
+
+export const EXTRACTION_SCHEMAS: Record<string, FieldDefinition[]> = {
+  invoice: [
+    { key: 'invoice_number', label: 'Invoice Number', type: 'text', description: 'Invoice or bill reference number' },
+    { key: 'vendor', label: 'Vendor', type: 'text', description: 'Company or person issuing the invoice' },
+    { key: 'customer', label: 'Customer', type: 'text', description: 'Company or person being billed' },
+    { key: 'invoice_date', label: 'Invoice Date', type: 'date', description: 'Date the invoice was issued' },
+    { key: 'due_date', label: 'Due Date', type: 'date', description: 'Date payment is due' },
+    { key: 'currency', label: 'Currency', type: 'text', description: 'ISO 4217 currency code, e.g. EUR' },
+    { key: 'subtotal', label: 'Subtotal', type: 'number', description: 'Amount before tax' },
+    { key: 'tax', label: 'Tax', type: 'number', description: 'Total tax amount' },
+    { key: 'total', label: 'Total', type: 'number', description: 'Total amount due' },
+  ],
+  contract: [
+    { key: 'parties', label: 'Parties', type: 'list', description: 'Names of all contracting parties' },
+    { key: 'effective_date', label: 'Effective Date', type: 'date', description: 'Date the contract takes effect' },
+    { key: 'term', label: 'Term', type: 'text', description: 'Duration of the contract, e.g. "24 months"' },
+    { key: 'termination_notice', label: 'Termination Notice', type: 'text', description: 'Required notice period for termination' },
+    { key: 'governing_law', label: 'Governing Law', type: 'text', description: 'Jurisdiction whose law governs the contract' },
+    { key: 'contract_value', label: 'Contract Value', type: 'number', description: 'Total monetary value, if stated' },
+  ],
+  letter: [
+    { key: 'sender', label: 'Sender', type: 'text', description: 'Who wrote the letter' },
+    { key: 'recipient', label: 'Recipient', type: 'text', description: 'Who the letter is addressed to' },
+    { key: 'letter_date', label: 'Date', type: 'date', description: 'Date of the letter' },
+    { key: 'subject', label: 'Subject', type: 'text', description: 'Subject or reference line' },
+  ],
+  financial: [
+    { key: 'organization', label: 'Organization', type: 'text', description: 'Entity the figures belong to' },
+    { key: 'period_start', label: 'Period Start', type: 'date', description: 'First day of the reporting period' },
+    { key: 'period_end', label: 'Period End', type: 'date', description: 'Last day of the reporting period' },
+    { key: 'currency', label: 'Currency', type: 'text', description: 'ISO 4217 currency code, e.g. EUR' },
+    { key: 'revenue', label: 'Revenue', type: 'number', description: 'Total revenue for the period' },
+    { key: 'net_income', label: 'Net Income', type: 'number', description: 'Net income or loss for the period' },
+  ],
+  legal: [
+    { key: 'case_number', label: 'Case Number', type: 'text', description: 'Court or file reference number' },
+    { key: 'court', label: 'Court / Authority', type: 'text', description: 'Court or authority involved' },
+    { key: 'parties', label: 'Parties', type: 'list', description: 'Names of the parties involved' },
+    { key: 'filing_date', label: 'Date', type: 'date', description: 'Filing, decision or issue date' },
+  ],
+  academic: [
+    { key: 'title', label: 'Title', type: 'text', description: 'Title of the paper' },
+    { key: 'authors', label: 'Authors', type: 'list', description: 'Author names in order' },
+    { key: 'publication_date', label: 'Publication Date', type: 'date', description: 'Date of publication' },
+    { key: 'venue', label: 'Venue', type: 'text', description: 'Journal, conference or institution' },
+    { key: 'doi', label: 'DOI', type: 'text', description: 'Digital Object Identifier' },
+  ],
+};
+
+// Header details sit at the start, totals and signatures near the end
+const HEAD_CHARS = 6000;
+const TAIL_CHARS = 2000;
+
+const excerpt = (content: string) =>
+  content.length <= HEAD_CHARS + TAIL_CHARS
+    ? content
+    : `${content.slice(0, HEAD_CHARS)}\n... (middle omitted)\n${content.slice(-TAIL_CHARS)}`;
+
+export const buildExtractionPrompt = (content: string, fileName: string, documentType: string, schema: FieldDefinition[]) =>
+  `Extract the following fields from this ${documentType.replace(/_/g, ' ')} titled "${fileName}".
+
+Document Content:
+${excerpt(content)}
+
+Fields:
+${schema.map(field => `- ${field.key} (${field.type}): ${field.description}`).join('\n')}
+
+Respond with a JSON object keyed by field name. Each value is an object {"value": ..., "confidence": 0.0-1.0}.
+Dates as YYYY-MM-DD, numbers without currency symbols or thousands separators, lists as arrays of strings.
+Use {"value": null, "confidence": 0} for fields the document does not contain. Return only valid JSON:`;
+
+// "1.234,56" and "1,234.56" both mean 1234.56: with both separators, the last
+// one is the decimal point. A lone separator is a decimal point ("1.5",
+// "0.125", "2,75") unless it groups thousands: exactly three digits after a
+// one to three digit integer part ("1,234", "12.500"). A repeated separator
+// always groups ("1.234.567").
+export const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const negative = /^\s*(-|\()/.test(value);
+  let digits = value.replace(/[^\d.,]/g, '');
+  const lastSeparator = Math.max(digits.lastIndexOf('.'), digits.lastIndexOf(','));
+  const separators = digits.match(/[.,]/g) ?? [];
+  const integerPart = digits.slice(0, lastSeparator);
+  const fraction = digits.slice(lastSeparator + 1);
+  const isDecimal = lastSeparator !== -1 && (
+    new Set(separators).size > 1
+    || (separators.length === 1 && !(fraction.length === 3 && /^[1-9]\d{0,2}$/.test(integerPart)))
+  );
+  if (isDecimal) {
+    digits = `${integerPart.replace(/[.,]/g, '')}.${fraction}`;
+  } else {
+    digits = digits.replace(/[.,]/g, '');
+  }
+  const parsed = parseFloat(digits);
+  if (Number.isNaN(parsed)) return null;
+  return negative ? -parsed : parsed;
+};
+
+const toDate = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const iso = value.match(/\d{4}-\d{2}-\d{2}/);
+  if (iso) return iso[0];
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString().slice(0, 10);
+};
+
+const toList = (value: unknown): string[] | null => {
+  if (Array.isArray(value)) return value.map(item => String(item).trim()).filter(Boolean);
+  if (typeof value === 'string') return value.split(/;|\n/).map(item => item.trim()).filter(Boolean);
+  return null;
+};
+
+const toDisplayText = (value: unknown) =>
+  Array.isArray(value) ? value.join(', ') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+/**
+ * Coerces the model's answer into typed fields. Fields that are missing or
+ * null are dropped; a value that doesn't parse as its type is kept as text
+ * only, so the raw answer is still visible.
+ */
+export const parseExtractionResponse = (text: string, schema: FieldDefinition[]): ExtractedField[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(repairJsonText(text));
+  } catch {
+    throw new Error('extraction response is not valid JSON');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('extraction response must be a JSON object');
+  }
+
+  const answers = parsed as Record<string, unknown>;
+  const fields: ExtractedField[] = [];
+
+  schema.forEach((field, position) => {
+    const answer = answers[field.key];
+    // Models sometimes skip the {value, confidence} wrapper
+    const wrapped = typeof answer === 'object' && answer !== null && !Array.isArray(answer) && 'value' in answer;
+    const value = wrapped ? (answer as { value: unknown }).value : answer;
+    const rawConfidence = wrapped ? (answer as { confidence?: unknown }).confidence : undefined;
+    if (value === null || value === undefined || value === '') return;
+
+    const confidence = typeof rawConfidence === 'number' && rawConfidence >= 0 && rawConfidence <= 1 ? rawConfidence : null;
+    const list = field.type === 'list' ? toList(value) : null;
+    if (list && list.length === 0) return;
+
+    fields.push({
+      field_key: field.key,
+      field_label: field.label,
+      field_type: field.type,
+      position,
+      value_text: toDisplayText(value),
+      value_number: field.type === 'number' ? toNumber(value) : null,
+      value_date: field.type === 'date' ? toDate(value) : null,
+      value_list: list,
+      confidence,
+    });
+  });
+
+  return fields;
+};
+
+/**
+ * Runs the classified type's schema (document_types.extraction_schema), if it
+ * has one. Returns an empty list for types without a schema.
+ */
+export const extractFields = async (
+  provider: LLMProvider,
+  content: string,
+  fileName: string,
+  documentType: string,
+  schemaKey: string | null
+): Promise<{ fields: ExtractedField[]; latencyMs: number }> => {
+  const schema = schemaKey ? EXTRACTION_SCHEMAS[schemaKey] : undefined;
+  if (!schema) return { fields: [], latencyMs: 0 };
+
+  const response = await provider.analyze({
+    system: 'You extract structured data from documents. Only report values that appear in the document.',
+    prompt: buildExtractionPrompt(content, fileName, documentType, schema),
+    json: true,
+  });
+
+  return { fields: parseExtractionResponse(response.text, schema), latencyMs: response.latencyMs };
+};
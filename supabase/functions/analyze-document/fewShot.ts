@@ -0,0 +1,134 @@
+// Few-shot examples from the user's own corrections (document_feedback), so
+// analyses follow the conventions they keep enforcing by hand.
+import type { createAdminClient } from '../_shared/supabaseAdmin.ts';
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+export interface Correction {
+  feedback_type: 'summary' | 'classification';
+  original_value: string | null;
+  corrected_value: string;
+  reason: string | null;
+  created_at: string;
+  filename: string;
+  mime_type: string | null;
+  // Start of the corrected document's text, for similarity and the prompt
+  content: string;
+}
+
+export interface FewShotTarget {
+  fileName: string;
+  content: string;
+  mimeType: string;
+  // The previous classification; null on a document's first analysis
+  classification?: string | null;
+}
+
+const DEFAULT_MAX_EXAMPLES = 5;
+const CANDIDATE_LIMIT = 100;
+const EXCERPT_CHARS = 300;
+const CONTENT_SAMPLE_CHARS = 4000;
+// Weaker than a shared classification: many unrelated documents are PDFs
+const SAME_MIME_TYPE_SCORE = 0.5;
+
+const tokenize = (text: string, minLength: number) =>
+  new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length >= minLength));
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Ranks corrections by how closely the corrected document resembles the one
+ * being analyzed: same classification (only known when re-analyzing), same
+ * file type, then filename and content overlap. Ties go to the most recent
+ * correction.
+ */
+export const selectFewShotExamples = (corrections: Correction[], target: FewShotTarget, max: number): Correction[] => {
+  const targetName = tokenize(target.fileName.replace(/\.[^.]+$/, ''), 2);
+  const targetContent = tokenize(target.content.slice(0, CONTENT_SAMPLE_CHARS), 4);
+
+  return corrections
+    .map(correction => {
+      const sameClass = !!target.classification && correction.feedback_type === 'classification' &&
+        (correction.original_value === target.classification || correction.corrected_value === target.classification);
+      const sameMimeType = !!target.mimeType && correction.mime_type === target.mimeType;
+      const score = (sameClass ? 1 : 0) + (sameMimeType ? SAME_MIME_TYPE_SCORE : 0) +
+        jaccard(targetName, tokenize(correction.filename.replace(/\.[^.]+$/, ''), 2)) +
+        jaccard(targetContent, tokenize(correction.content, 4));
+      return { correction, score };
+    })
+    .sort((a, b) => b.score - a.score || b.correction.created_at.localeCompare(a.correction.created_at))
+    .slice(0, max)
+    .map(entry => entry.correction);
+};
+
+export const formatFewShotExamples = (examples: Correction[]): string => {
+  if (examples.length === 0) return '';
+
+  const lines = examples.map((example, index) => {
+    const subject = example.feedback_type === 'classification' ? 'document_type' : 'summary';
+    const original = example.original_value ? `"${example.original_value}"` : 'empty';
+    const excerpt = example.content.slice(0, EXCERPT_CHARS).replace(/\s+/g, ' ').trim();
+    return [
+      `Example ${index + 1}: "${example.filename}"${excerpt ? ` (begins: "${excerpt}")` : ''}`,
+      `  ${subject} was ${original}; the user corrected it to "${example.corrected_value}".`,
+      example.reason ? `  Reason given: ${example.reason}` : '',
+    ].filter(Boolean).join('\n');
+  });
+
+  return `This user has corrected earlier analyses. Apply the same judgement where it fits:\n${lines.join('\n')}`;
+};
+
+/**
+ * Loads the user's corrections and picks the most relevant ones, honoring the
+ * per-account on/off setting and example cap. Returns an empty list when
+ * disabled or when there is nothing to learn from yet.
+ */
+export const loadFewShotExamples = async (
+  supabase: AdminClient,
+  userId: string,
+  fileId: string,
+  target: FewShotTarget
+): Promise<Correction[]> => {
+  const { data: settings } = await supabase
+    .from('account_settings')
+    .select('few_shot_enabled, few_shot_max_examples')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const enabled = settings?.few_shot_enabled ?? true;
+  const max = settings?.few_shot_max_examples ?? DEFAULT_MAX_EXAMPLES;
+  if (!enabled || max <= 0) return [];
+
+  // Corrections on the document being analyzed are excluded; re-analysis
+  // shouldn't just echo them back
+  const { data, error } = await supabase
+    .from('document_feedback')
+    .select('feedback_type, original_value, corrected_value, reason, created_at, documents(filename, mime_type, extracted_text)')
+    .eq('user_id', userId)
+    .neq('file_id', fileId)
+    .order('created_at', { ascending: false })
+    .limit(CANDIDATE_LIMIT);
+
+  if (error) {
+    console.error('Failed to load corrections for few-shot examples:', error);
+    return [];
+  }
+
+  const corrections: Correction[] = (data ?? []).map(row => ({
+    feedback_type: row.feedback_type,
+    original_value: row.original_value,
+    corrected_value: row.corrected_value,
+    reason: row.reason,
+    created_at: row.created_at,
+    filename: row.documents?.filename ?? 'document',
+    mime_type: row.documents?.mime_type ?? null,
+    content: (row.documents?.extracted_text ?? '').slice(0, CONTENT_SAMPLE_CHARS),
+  }));
+
+  return selectFewShotExamples(corrections, target, max);
+};
@@ -0,0 +1,139 @@
+// Line-item tables for invoices and financial documents. The model reads the
+// rows and the stated totals; the arithmetic is checked here, not trusted.
+import type { LLMProvider } from '../_shared/llm/index.ts';
+import { repairJsonText } from './schema.ts';
+import { toNumber } from './extraction.ts';
+
+// Extraction schemas (document_types.extraction_schema) that have line items
+export const LINE_ITEM_SCHEMAS = ['invoice', 'financial'];
+
+export interface LineItem {
+  description: string;
+  quantity: number | null;
+  unit_price: number | null;
+  amount: number | null;
+  // quantity × unit_price disagrees with amount
+  amount_mismatch: boolean;
+}
+
+// Stored as documents.line_items
+export interface LineItemTable {
+  items: LineItem[];
+  currency: string | null;
+  subtotal: number | null;
+  tax: number | null;
+  total: number | null;
+  computed_total: number;
+  // null when the document states no total to compare against
+  totals_match: boolean | null;
+  // computed_total minus the closest stated total
+  difference: number | null;
+}
+
+const CONTENT_CHARS = 12000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Rounding on the document itself: a cent, or 0.5% on large amounts
+const isClose = (a: number, b: number) => Math.abs(a - b) <= Math.max(0.01, Math.abs(b) * 0.005);
+
+export const buildLineItemPrompt = (content: string, fileName: string) =>
+  `Extract the line items table from the document "${fileName}".
+
+Document Content:
+${content.substring(0, CONTENT_CHARS)}${content.length > CONTENT_CHARS ? '\n... (content truncated)' : ''}
+
+Respond with a JSON object with these keys:
+- line_items: Array of {"description": string, "quantity": number|null, "unit_price": number|null, "amount": number|null}, one per row, in document order
+- subtotal: Stated amount before tax, or null
+- tax: Stated total tax, or null
+- total: Stated grand total, or null
+- currency: ISO 4217 code, or null
+
+Copy numbers exactly as stated, without currency symbols or thousands separators. Do not calculate missing values.
+If the document has no line items, return an empty array. Return only valid JSON:`;
+
+/**
+ * Checks every row (quantity × unit price = amount) and the rows' sum against
+ * the stated totals. The sum matches when it equals the subtotal, the total,
+ * or the total less tax.
+ */
+export const crossCheckLineItems = (
+  items: Omit<LineItem, 'amount_mismatch'>[],
+  stated: { subtotal: number | null; tax: number | null; total: number | null; currency: string | null }
+): LineItemTable => {
+  const checked = items.map(item => {
+    const expected = item.quantity != null && item.unit_price != null ? round2(item.quantity * item.unit_price) : null;
+    return {
+      ...item,
+      amount: item.amount ?? expected,
+      amount_mismatch: expected != null && item.amount != null && !isClose(expected, item.amount),
+    };
+  });
+
+  const computedTotal = round2(checked.reduce((sum, item) => sum + (item.amount ?? 0), 0));
+  const candidates = [
+    stated.subtotal,
+    stated.total,
+    stated.total != null && stated.tax != null ? round2(stated.total - stated.tax) : null,
+  ].filter((value): value is number => value != null);
+
+  const closest = candidates.length > 0
+    ? candidates.reduce((best, value) => Math.abs(computedTotal - value) < Math.abs(computedTotal - best) ? value : best)
+    : null;
+
+  return {
+    items: checked,
+    ...stated,
+    computed_total: computedTotal,
+    totals_match: closest == null ? null : isClose(computedTotal, closest),
+    difference: closest == null ? null : round2(computedTotal - closest),
+  };
+};
+
+export const parseLineItemResponse = (text: string): LineItemTable | null => {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(repairJsonText(text));
+  } catch {
+    throw new Error('line item response is not valid JSON');
+  }
+
+  const rows = Array.isArray(parsed.line_items) ? parsed.line_items : [];
+  const items = rows
+    .filter((row): row is Record<string, unknown> => typeof row === 'object' && row !== null)
+    .map(row => ({
+      description: typeof row.description === 'string' ? row.description.trim() : '',
+      quantity: toNumber(row.quantity),
+      unit_price: toNumber(row.unit_price),
+      amount: toNumber(row.amount),
+    }))
+    .filter(item => item.description || item.amount != null);
+
+  if (items.length === 0) return null;
+
+  return crossCheckLineItems(items, {
+    subtotal: toNumber(parsed.subtotal),
+    tax: toNumber(parsed.tax),
+    total: toNumber(parsed.total),
+    currency: typeof parsed.currency === 'string' && parsed.currency.trim() ? parsed.currency.trim().toUpperCase() : null,
+  });
+};
+
+/** Returns null for other extraction schemas or when no rows were found. */
+export const extractLineItems = async (
+  provider: LLMProvider,
+  content: string,
+  fileName: string,
+  schemaKey: string | null
+): Promise<{ table: LineItemTable | null; latencyMs: number }> => {
+  if (!schemaKey || !LINE_ITEM_SCHEMAS.includes(schemaKey)) return { table: null, latencyMs: 0 };
+
+  const response = await provider.analyze({
+    system: 'You extract tables from business documents. Only report values that appear in the document.',
+    prompt: buildLineItemPrompt(content, fileName),
+    json: true,
+  });
+
+  return { table: parseLineItemResponse(response.text), latencyMs: response.latencyMs };
+};
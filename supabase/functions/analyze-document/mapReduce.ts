@@ -0,0 +1,225 @@
+// Map-reduce helpers for documents that don't fit in a single prompt: every
+// chunk is analyzed on its own, then the partial results are merged here.
+import { MAX_PROMPT_CONTENT_CHARS } from './prompt.ts';
+
+export interface ChunkAnalysis {
+  summary?: string;
+  key_points?: string[];
+  document_type?: string;
+  confidence?: number;
+  topics?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface KeyPointSource {
+  point: string;
+  chunks: number[];
+}
+
+export interface MergedAnalysis {
+  // One entry per chunk, '' where a chunk had no summary, so indexes line up
+  // with key_point_sources
+  partial_summaries: string[];
+  key_points: string[];
+  key_point_sources: KeyPointSource[];
+  document_type: string;
+  confidence: number;
+  topics: string[];
+  metadata: Record<string, unknown>;
+}
+
+const MAX_KEY_POINTS = 8;
+const MAX_TOPICS = 6;
+
+// A section summary longer than this is clipped in the reduce input, so every
+// reduce prompt can hold several sections
+const MAX_SECTION_CHARS = 1000;
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Runs fn over every item with at most `concurrency` calls in flight,
+ * preserving input order in the result.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+const mergeKeyPoints = (partials: ChunkAnalysis[]): KeyPointSource[] => {
+  const byKey = new Map<string, KeyPointSource>();
+
+  partials.forEach((partial, chunkIndex) => {
+    for (const point of partial.key_points ?? []) {
+      if (typeof point !== 'string' || !point.trim()) continue;
+      const key = normalize(point);
+      const existing = byKey.get(key);
+      if (existing) {
+        if (!existing.chunks.includes(chunkIndex)) existing.chunks.push(chunkIndex);
+      } else {
+        byKey.set(key, { point: point.trim(), chunks: [chunkIndex] });
+      }
+    }
+  });
+
+  // Points raised by several chunks first, then in document order
+  return [...byKey.values()]
+    .sort((a, b) => b.chunks.length - a.chunks.length || a.chunks[0] - b.chunks[0])
+    .slice(0, MAX_KEY_POINTS);
+};
+
+const mergeTopics = (partials: ChunkAnalysis[]): string[] => {
+  const counts = new Map<string, { topic: string; count: number }>();
+
+  for (const partial of partials) {
+    for (const topic of partial.topics ?? []) {
+      if (typeof topic !== 'string' || !topic.trim()) continue;
+      const key = normalize(topic);
+      const entry = counts.get(key) ?? { topic: topic.trim(), count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+  }
+
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_TOPICS)
+    .map(entry => entry.topic);
+};
+
+// Confidence-weighted vote so one unsure chunk can't outvote several sure ones
+const voteDocumentType = (partials: ChunkAnalysis[]): string => {
+  const scores = new Map<string, number>();
+  for (const partial of partials) {
+    if (!partial.document_type) continue;
+    scores.set(partial.document_type, (scores.get(partial.document_type) ?? 0) + (partial.confidence ?? 0.5));
+  }
+  return [...scores.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'other';
+};
+
+const uniqueValues = (values: unknown[]): unknown[] => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = JSON.stringify(value);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Keys found in several chunks keep a single value when they agree and become
+// a list of the distinct values when they don't.
+const mergeMetadata = (partials: ChunkAnalysis[]): Record<string, unknown> => {
+  const collected = new Map<string, unknown[]>();
+
+  for (const partial of partials) {
+    for (const [key, value] of Object.entries(partial.metadata ?? {})) {
+      if (value === null || value === undefined || value === '') continue;
+      const values = collected.get(key) ?? [];
+      values.push(...(Array.isArray(value) ? value : [value]));
+      collected.set(key, values);
+    }
+  }
+
+  return Object.fromEntries(
+    [...collected.entries()].map(([key, values]) => {
+      const unique = uniqueValues(values);
+      return [key, unique.length === 1 ? unique[0] : unique];
+    })
+  );
+};
+
+export const mergeChunkAnalyses = (partials: ChunkAnalysis[]): MergedAnalysis => {
+  const keyPointSources = mergeKeyPoints(partials);
+  const confidences = partials
+    .map(partial => partial.confidence)
+    .filter((value): value is number => typeof value === 'number');
+
+  return {
+    partial_summaries: partials.map(partial => partial.summary?.trim() ?? ''),
+    key_points: keyPointSources.map(source => source.point),
+    key_point_sources: keyPointSources,
+    document_type: voteDocumentType(partials),
+    confidence: confidences.length ? confidences.reduce((a, b) => a + b, 0) / confidences.length : 0.5,
+    topics: mergeTopics(partials),
+    metadata: mergeMetadata(partials),
+  };
+};
+
+// A run of consecutive chunks, numbered from 1 like the [Section N] labels
+interface Section {
+  first: number;
+  last: number;
+  summary: string;
+}
+
+const formatSection = ({ first, last, summary }: Section) =>
+  `[${first === last ? `Section ${first}` : `Sections ${first}-${last}`}] ${summary.substring(0, MAX_SECTION_CHARS)}`;
+
+/**
+ * Input for a reduce pass: section summaries in order, so the model can write
+ * one summary and classification for them.
+ */
+const buildReduceInput = (sections: Section[], keyPoints: string[]): string =>
+  [
+    'The document was too long to analyze at once. These are summaries of its consecutive sections:',
+    ...sections.map(formatSection),
+    ...(keyPoints.length ? ['', `Key points found across sections: ${keyPoints.join('; ')}`] : []),
+  ].join('\n');
+
+// Splits sections into consecutive groups whose reduce input fits the prompt
+const packSections = (sections: Section[]): Section[][] => {
+  const groups: Section[][] = [];
+  for (const section of sections) {
+    const group = groups[groups.length - 1];
+    if (group && buildReduceInput([...group, section], []).length <= MAX_PROMPT_CONTENT_CHARS) {
+      group.push(section);
+    } else {
+      groups.push([section]);
+    }
+  }
+  return groups;
+};
+
+/**
+ * Reduces the chunk summaries to one analysis of the whole document. When they
+ * don't fit in one prompt, consecutive groups are summarized first and the
+ * group summaries reduced again, so no section is cut off.
+ */
+export async function reduceSummaries(
+  merged: MergedAnalysis,
+  concurrency: number,
+  summarize: (input: string, part: string) => Promise<ChunkAnalysis>
+): Promise<ChunkAnalysis> {
+  let sections: Section[] = merged.partial_summaries
+    .map((summary, index) => ({ first: index + 1, last: index + 1, summary }))
+    .filter(section => section.summary);
+
+  for (;;) {
+    const input = buildReduceInput(sections, merged.key_points);
+    if (sections.length <= 1 || input.length <= MAX_PROMPT_CONTENT_CHARS) {
+      return summarize(input, 'summaries of all sections');
+    }
+
+    sections = await mapWithConcurrency(packSections(sections), concurrency, async group => {
+      const first = group[0].first;
+      const last = group[group.length - 1].last;
+      const result = await summarize(buildReduceInput(group, []), `summaries of sections ${first}-${last}`);
+      return { first, last, summary: result.summary?.trim() || group.map(section => section.summary).join(' ') };
+    });
+  }
+}
@@ -0,0 +1,46 @@
+// LLM-assisted personal data detection: a local model can find what the
+// patterns in _shared/pii.ts can't see, such as names and addresses written
+// out in prose.
+import type { LLMProvider } from '../_shared/llm/index.ts';
+import { PII_TYPES, resolveOverlaps, type PiiSpan, type PiiType } from '../_shared/pii.ts';
+import { repairJsonText } from './schema.ts';
+
+const LLM_ASSIST_CHARS = 12000;
+
+/**
+ * Asks a model for personal data the patterns missed (names, free-form
+ * addresses). The model quotes the text; quotes that can't be found verbatim
+ * are ignored. Only ever called with a provider that runs locally.
+ */
+export const detectPiiWithLlm = async (provider: LLMProvider, text: string, existing: PiiSpan[]): Promise<PiiSpan[]> => {
+  const sample = text.slice(0, LLM_ASSIST_CHARS);
+  const response = await provider.analyze({
+    system: 'You find personal data in documents. Quote it exactly as written.',
+    prompt: `List every piece of personal data in the text below: person names, postal addresses, phone numbers, email addresses, national ID numbers, bank account numbers.
+
+Text:
+${sample}
+
+Respond with {"pii": [{"type": one of ${PII_TYPES.join(', ')}, "text": exact quote from the text}]}. Return only valid JSON:`,
+    json: true,
+  });
+
+  let parsed: { pii?: unknown };
+  try {
+    parsed = JSON.parse(repairJsonText(response.text));
+  } catch {
+    throw new Error('PII response is not valid JSON');
+  }
+
+  const found: PiiSpan[] = [];
+  for (const item of Array.isArray(parsed.pii) ? parsed.pii : []) {
+    const quote = typeof item?.text === 'string' ? item.text.trim() : '';
+    const type = PII_TYPES.includes(item?.type) ? item.type as PiiType : null;
+    if (!type || quote.length < 3) continue;
+    for (let index = sample.indexOf(quote); index !== -1; index = sample.indexOf(quote, index + quote.length)) {
+      found.push({ type, start: index, end: index + quote.length, confidence: 0.6, detector: 'llm' });
+    }
+  }
+
+  return resolveOverlaps([...existing, ...found]);
+};
@@ -0,0 +1,46 @@
+// Prompt shared by every LLM provider so results don't depend on which one
+// in the fallback chain ended up answering.
+import type { DocumentTypeDefinition } from '../_shared/documentTypes.ts';
+
+export const ANALYSIS_SYSTEM_PROMPT =
+  'You are a document analysis expert. Analyze documents and provide structured insights in JSON format. Be accurate and concise.';
+
+export const MAX_PROMPT_CONTENT_CHARS = 8000;
+
+const describeFileType = (mimeType: string) =>
+  mimeType.includes('pdf') ? 'PDF document' :
+  mimeType.includes('text') ? 'text document' :
+  mimeType.includes('image') ? 'image document' :
+  'document';
+
+const describeDocumentType = ({ name, description, examples }: DocumentTypeDefinition) =>
+  `  - ${name}${description ? `: ${description}` : ''}${examples.length ? ` (e.g. ${examples.join('; ')})` : ''}`;
+
+export interface AnalysisPromptInput {
+  content: string;
+  fileName: string;
+  mimeType: string;
+  // The account's taxonomy; document_type must be one of these names
+  documentTypes: DocumentTypeDefinition[];
+  part?: string;
+  // Extra instructions placed after the content, e.g. few-shot examples from
+  // the user's past corrections
+  guidance?: string;
+}
+
+export const buildAnalysisPrompt = ({ content, fileName, mimeType, documentTypes, part, guidance }: AnalysisPromptInput) =>
+  `Analyze this ${describeFileType(mimeType)} titled "${fileName}"${part ? ` (${part})` : ''} and extract key information.
+
+Document Content:
+${content.substring(0, MAX_PROMPT_CONTENT_CHARS)}${content.length > MAX_PROMPT_CONTENT_CHARS ? '\n... (content truncated)' : ''}
+${guidance ? `\n${guidance}\n` : ''}
+Provide a JSON response with these exact keys:
+- summary: A concise 2-3 sentence summary
+- key_points: Array of 3-5 most important points
+- document_type: Exactly one of these names:
+${documentTypes.map(describeDocumentType).join('\n')}
+- confidence: Float between 0.0 and 1.0
+- topics: Array of 2-4 main topics/themes
+- metadata: Object with dates, names, amounts, and other key info extracted from the document
+
+Return only valid JSON:`;
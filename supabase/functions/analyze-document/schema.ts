@@ -0,0 +1,189 @@
+// Strict schema for model output. Responses are validated as-is first, then
+// after a mechanical repair pass; whatever is still wrong is reported back so
+// the caller can re-prompt and, failing that, record the violations.
+import { DOCUMENT_TYPES, FALLBACK_DOCUMENT_TYPE } from '../_shared/documentTypes.ts';
+
+export interface AnalysisResult {
+  summary: string;
+  key_points: string[];
+  document_type: string;
+  confidence: number;
+  topics: string[];
+  metadata: Record<string, unknown>;
+}
+
+export interface ParsedAnalysis {
+  // null when the response isn't JSON even after repair
+  value: Record<string, unknown> | null;
+  errors: string[];
+}
+
+const REQUIRED_KEYS: (keyof AnalysisResult)[] = ['summary', 'key_points', 'document_type', 'confidence', 'topics', 'metadata'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const validateAnalysis = (value: unknown, documentTypes: string[] = DOCUMENT_TYPES): string[] => {
+  if (!isPlainObject(value)) return ['response must be a JSON object'];
+
+  const errors: string[] = [];
+  for (const key of REQUIRED_KEYS) {
+    if (!(key in value)) errors.push(`missing required key "${key}"`);
+  }
+
+  const { summary, key_points, document_type, confidence, topics, metadata } = value;
+  if ('summary' in value && (typeof summary !== 'string' || !summary.trim())) {
+    errors.push('"summary" must be a non-empty string');
+  }
+  if ('key_points' in value && !isStringArray(key_points)) {
+    errors.push('"key_points" must be an array of strings');
+  }
+  if ('document_type' in value && (typeof document_type !== 'string' || !documentTypes.includes(document_type))) {
+    errors.push(`"document_type" must be one of: ${documentTypes.join(', ')} (got ${JSON.stringify(document_type)})`);
+  }
+  if ('confidence' in value && (typeof confidence !== 'number' || !(confidence >= 0 && confidence <= 1))) {
+    errors.push(`"confidence" must be a number between 0 and 1 (got ${JSON.stringify(confidence)})`);
+  }
+  if ('topics' in value && !isStringArray(topics)) {
+    errors.push('"topics" must be an array of strings');
+  }
+  if ('metadata' in value && !isPlainObject(metadata)) {
+    errors.push('"metadata" must be an object');
+  }
+
+  return errors;
+};
+
+// Common ways models wrap or break JSON: markdown fences, prose around the
+// object, trailing commas.
+export const repairJsonText = (text: string): string => {
+  let repaired = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  const start = repaired.indexOf('{');
+  const end = repaired.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    repaired = repaired.slice(start, end + 1);
+  }
+  return repaired.replace(/,\s*([}\]])/g, '$1');
+};
+
+const toList = (value: unknown): unknown => {
+  if (typeof value === 'string') {
+    return value.split(/\n|;/).map(item => item.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim()).filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map(item => (typeof item === 'string' ? item : typeof item === 'number' ? String(item) : item))
+      .filter(item => item !== '');
+  }
+  return value;
+};
+
+const normalizeTypeName = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// Shortest word that may stand for a longer one, e.g. "doc" for "document"
+const MIN_ABBREVIATION_LENGTH = 3;
+
+const wordsMatch = (a: string, b: string) =>
+  a === b || (Math.min(a.length, b.length) >= MIN_ABBREVIATION_LENGTH && (a.startsWith(b) || b.startsWith(a)));
+
+// Word by word from the start, so "technical" matches "technical_doc" but a
+// stray fragment like "a" or "re" matches nothing
+const typeNamesMatch = (value: string, type: string) => {
+  const [shorter, longer] = [value.split('_'), type.split('_')].sort((a, b) => a.length - b.length);
+  return shorter.every((word, index) => wordsMatch(word, longer[index]));
+};
+
+const toDocumentType = (value: unknown, documentTypes: string[]): unknown => {
+  if (typeof value !== 'string') return value;
+  const normalized = normalizeTypeName(value);
+  if (!normalized) return value;
+  const exact = documentTypes.find(type => normalizeTypeName(type) === normalized);
+  if (exact) return exact;
+  // "technical document", "technical" -> technical_doc, unless it could be
+  // more than one type
+  const matches = documentTypes.filter(type => typeNamesMatch(normalized, normalizeTypeName(type)));
+  return matches.length === 1 ? matches[0] : value;
+};
+
+const toConfidence = (value: unknown): unknown => {
+  const numeric = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof numeric !== 'number' || Number.isNaN(numeric)) return value;
+  // Percentages ("85", "85%") are common despite the instructions
+  return numeric > 1 && numeric <= 100 ? numeric / 100 : numeric;
+};
+
+/**
+ * Mechanical fixes that don't change meaning: key casing, list-as-string,
+ * percentages, enum spelling, null metadata. Anything else is left for the
+ * re-prompt.
+ */
+export const repairAnalysis = (value: unknown, documentTypes: string[] = DOCUMENT_TYPES): unknown => {
+  if (!isPlainObject(value)) return value;
+
+  const lowered = Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [key.trim().toLowerCase().replace(/[\s-]+/g, '_'), entry])
+  );
+  const repaired: Record<string, unknown> = { ...lowered };
+
+  if (Array.isArray(repaired.summary)) repaired.summary = repaired.summary.join(' ');
+  if ('key_points' in repaired) repaired.key_points = toList(repaired.key_points);
+  if ('topics' in repaired) repaired.topics = toList(repaired.topics);
+  if ('document_type' in repaired) repaired.document_type = toDocumentType(repaired.document_type, documentTypes);
+  if ('confidence' in repaired) repaired.confidence = toConfidence(repaired.confidence);
+  if (repaired.metadata === null || repaired.metadata === undefined) repaired.metadata = {};
+
+  return repaired;
+};
+
+export const parseAnalysisResponse = (text: string, documentTypes: string[] = DOCUMENT_TYPES): ParsedAnalysis => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    try {
+      parsed = JSON.parse(repairJsonText(text));
+    } catch {
+      return { value: null, errors: ['response is not valid JSON'] };
+    }
+  }
+
+  if (validateAnalysis(parsed, documentTypes).length === 0) {
+    return { value: parsed as Record<string, unknown>, errors: [] };
+  }
+
+  const repaired = repairAnalysis(parsed, documentTypes);
+  return {
+    value: isPlainObject(repaired) ? repaired : null,
+    errors: validateAnalysis(repaired, documentTypes),
+  };
+};
+
+/**
+ * Keeps the fields that passed validation and replaces the rest with neutral
+ * defaults, so a partially valid response never writes undefined into the row.
+ */
+export const sanitizeAnalysis = (value: Record<string, unknown>, documentTypes: string[] = DOCUMENT_TYPES): AnalysisResult => {
+  const { summary, key_points, document_type, confidence, topics, metadata } = value;
+  return {
+    summary: typeof summary === 'string' ? summary.trim() : '',
+    key_points: isStringArray(key_points) ? key_points : [],
+    document_type: typeof document_type === 'string' && documentTypes.includes(document_type) ? document_type : FALLBACK_DOCUMENT_TYPE,
+    confidence: typeof confidence === 'number' && confidence >= 0 && confidence <= 1 ? confidence : 0,
+    topics: isStringArray(topics) ? topics : [],
+    metadata: isPlainObject(metadata) ? metadata : {},
+  };
+};
+
+export const buildCorrectionPrompt = (originalPrompt: string, previousResponse: string, errors: string[]) =>
+  `${originalPrompt}
+
+Your previous response did not match the required format:
+${previousResponse.slice(0, 2000)}
+
+Problems found:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with a single JSON object that fixes these problems. Return only valid JSON:`;
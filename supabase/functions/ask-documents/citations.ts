@@ -0,0 +1,29 @@
+// Turns the model's inline [n] markers into citations. Markers that point at
+// a source that wasn't in the prompt are dropped, grouped markers like [1, 3]
+// are split, and the cited sources are renumbered 1..k in order of first use.
+
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+export interface CitedAnswer {
+  answer: string;
+  // Prompt source number for each citation, indexed by new number - 1
+  cited: number[];
+}
+
+export const resolveCitations = (text: string, sourceCount: number): CitedAnswer => {
+  const cited: number[] = [];
+
+  const answer = text.replace(CITATION_MARKER, (_, group: string) =>
+    group
+      .split(',')
+      .map(Number)
+      .filter(number => number >= 1 && number <= sourceCount)
+      .map(number => {
+        if (!cited.includes(number)) cited.push(number);
+        return `[${cited.indexOf(number) + 1}]`;
+      })
+      .join('')
+  );
+
+  return { answer: answer.replace(/[ \t]+([.,;:])/g, '$1').trim(), cited };
+};
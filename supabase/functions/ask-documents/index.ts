@@ -0,0 +1,164 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createUserClient } from '../_shared/supabaseUser.ts';
+import { createEmbeddingProvider } from '../_shared/embeddings/index.ts';
+import { createProviderChain, runWithFallback, type LLMProvider } from '../_shared/llm/index.ts';
+import { detectPii, loadPiiSettings, redactText } from '../_shared/pii.ts';
+import { retrieveChunks, type ChunkMatch } from '../_shared/retrieval.ts';
+import { ANSWER_SYSTEM_PROMPT, buildAnswerPrompt, fitSources, type PromptSource } from './prompt.ts';
+import { resolveCitations } from './citations.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_QUESTION_CHARS = 1000;
+const RETRIEVED_CHUNKS = 24;
+const MAX_SOURCES = 10;
+// Keeps one long document from crowding out the others
+const MAX_CHUNKS_PER_DOCUMENT = 3;
+// Leaves room for the instructions and the answer
+const PROMPT_SOURCE_SHARE = 0.7;
+
+const NO_SOURCES_ANSWER = "I couldn't find anything in your documents that answers this question.";
+
+const selectSources = (matches: ChunkMatch[]): ChunkMatch[] => {
+  const perDocument = new Map<string, number>();
+  const selected: ChunkMatch[] = [];
+  for (const match of matches) {
+    const count = perDocument.get(match.file_id) ?? 0;
+    if (count >= MAX_CHUNKS_PER_DOCUMENT) continue;
+    perDocument.set(match.file_id, count + 1);
+    selected.push(match);
+    if (selected.length >= MAX_SOURCES) break;
+  }
+  return selected;
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { question } = await req.json();
+
+    if (typeof question !== 'string' || !question.trim()) {
+      throw new Error('Missing required field: question');
+    }
+
+    const trimmedQuestion = question.trim().slice(0, MAX_QUESTION_CHARS);
+
+    // Runs as the caller, so only their chunks and documents are read
+    const supabase = createUserClient(req);
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      throw new Error('User not authenticated');
+    }
+
+    const embeddingProvider = createEmbeddingProvider();
+    if (!embeddingProvider) {
+      throw new Error('No embedding provider configured');
+    }
+
+    const piiSettings = await loadPiiSettings(supabase, user.id);
+    const redact = (text: string) => redactText(text, detectPii(text));
+
+    // Passages without a vector from the current model can't be retrieved
+    // until backfill-documents embeds them; the caller is told how many
+    const { count: pendingPassages, error: pendingError } = await supabase
+      .from('document_chunks')
+      .select('id', { count: 'exact', head: true })
+      .or(`embedding.is.null,embedding_model.neq."${embeddingProvider.model}"`);
+
+    if (pendingError) throw pendingError;
+
+    const matches = await retrieveChunks(
+      supabase,
+      embeddingProvider,
+      piiSettings.redactExternal && embeddingProvider.external ? redact(trimmedQuestion) : trimmedQuestion,
+      { matchCount: RETRIEVED_CHUNKS }
+    );
+    const chunks = selectSources(matches);
+
+    if (chunks.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, answer: NO_SOURCES_ANSWER, citations: [], provider: null, pendingPassages }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const { data: documents, error: documentsError } = await supabase
+      .from('documents')
+      .select('file_id, filename')
+      .in('file_id', [...new Set(chunks.map(chunk => chunk.file_id))]);
+
+    if (documentsError) throw documentsError;
+
+    const fileNames = new Map((documents ?? []).map(doc => [doc.file_id, doc.filename as string]));
+    const sources: PromptSource[] = chunks.map((chunk, index) => ({
+      number: index + 1,
+      fileName: fileNames.get(chunk.file_id) ?? 'Untitled document',
+      page: chunk.page,
+      content: chunk.content,
+    }));
+
+    const redactsFor = (provider: LLMProvider) => piiSettings.redactExternal && provider.capabilities.external;
+
+    const { result, provider } = await runWithFallback(createProviderChain(), async provider => {
+      const promptSources = fitSources(
+        redactsFor(provider)
+          ? sources.map(source => ({ ...source, fileName: redact(source.fileName), content: redact(source.content) }))
+          : sources,
+        Math.floor(provider.capabilities.maxContextChars * PROMPT_SOURCE_SHARE)
+      );
+      const response = await provider.analyze({
+        system: ANSWER_SYSTEM_PROMPT,
+        prompt: buildAnswerPrompt(redactsFor(provider) ? redact(trimmedQuestion) : trimmedQuestion, promptSources),
+        temperature: 0.1,
+      });
+      if (!response.text.trim()) throw new Error('Empty answer');
+      return resolveCitations(response.text, promptSources.length);
+    });
+
+    // Cited passages go back to the caller unredacted: they are the user's own
+    // documents, only the provider was kept from seeing personal data
+    const citations = result.cited.map((sourceNumber, index) => {
+      const chunk = chunks[sourceNumber - 1];
+      return {
+        number: index + 1,
+        fileId: chunk.file_id,
+        fileName: sources[sourceNumber - 1].fileName,
+        page: chunk.page,
+        passage: chunk.content,
+        chunkIndex: chunk.chunk_index,
+        startOffset: chunk.start_offset,
+        endOffset: chunk.end_offset,
+        similarity: chunk.similarity,
+      };
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, answer: result.answer, citations, provider: provider.name, pendingPassages }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+
+  } catch (error) {
+    console.error('Error in ask-documents function:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,44 @@
+// Question answering over retrieved passages. Sources are numbered in the
+// prompt and the model cites them inline as [n]; citations.ts maps the
+// markers back to documents and pages.
+
+export const ANSWER_SYSTEM_PROMPT =
+  'You answer questions using only the numbered document excerpts you are given. Cite the excerpt behind every claim as [n]. If the excerpts do not contain the answer, say so.';
+
+export interface PromptSource {
+  number: number;
+  fileName: string;
+  page: number | null;
+  content: string;
+}
+
+const describeSource = ({ number, fileName, page, content }: PromptSource) =>
+  `[${number}] ${fileName}${page != null ? `, page ${page}` : ''}\n${content}`;
+
+/**
+ * Keeps sources in order until the character budget is spent; the first
+ * source is always included, truncated if it has to be.
+ */
+export const fitSources = (sources: PromptSource[], maxChars: number): PromptSource[] => {
+  const fitted: PromptSource[] = [];
+  let used = 0;
+  for (const source of sources) {
+    const size = describeSource(source).length + 2;
+    if (used + size > maxChars) {
+      if (fitted.length === 0) fitted.push({ ...source, content: source.content.slice(0, Math.max(maxChars - 200, 0)) });
+      break;
+    }
+    fitted.push(source);
+    used += size;
+  }
+  return fitted;
+};
+
+export const buildAnswerPrompt = (question: string, sources: PromptSource[]) =>
+  `Document excerpts:
+
+${sources.map(describeSource).join('\n\n')}
+
+Question: ${question}
+
+Answer in a few sentences or a short list. After each claim, cite the excerpt it comes from as [n], e.g. "The notice period is 30 days [2]." Only use the excerpts above; do not cite anything else. If they don't answer the question, say that the documents don't cover it.`;
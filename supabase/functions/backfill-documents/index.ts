@@ -0,0 +1,148 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createAdminClient, isServiceRoleRequest } from '../_shared/supabaseAdmin.ts';
+import { embedPendingChunks, indexDocumentChunks } from '../_shared/chunkIndex.ts';
+import { createEmbeddingProvider, type EmbeddingProvider } from '../_shared/embeddings/index.ts';
+import { detectPii, loadPiiSettings, redactText, savePiiSpans } from '../_shared/pii.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Same budget as the analysis worker; the next scheduled run continues
+const TIME_BUDGET_MS = 50_000;
+const BATCH_SIZE = 20;
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+// Documents stored before PII detection existed, or whose analysis never
+// finished, have no spans; redacted exports stay disabled until they do.
+// Pattern matching only: LLM assist runs when a document is re-analyzed.
+const backfillPii = async (supabase: AdminClient, startedAt: number) => {
+  let scanned = 0;
+
+  while (Date.now() - startedAt < TIME_BUDGET_MS) {
+    const { data: documents, error } = await supabase
+      .from('documents')
+      .select('file_id, user_id, extracted_text')
+      .is('pii_scanned_at', null)
+      .neq('status', 'processing')
+      .not('extracted_text', 'is', null)
+      .not('user_id', 'is', null)
+      .limit(BATCH_SIZE);
+
+    if (error) throw new Error(`Failed to load documents to scan: ${error.message}`);
+    if (!documents?.length) break;
+
+    for (const document of documents) {
+      await savePiiSpans(supabase, document.file_id, document.user_id, detectPii(document.extracted_text));
+      scanned++;
+    }
+  }
+
+  return scanned;
+};
+
+// What the provider is sent for a user's chunks; like analysis, external
+// providers get redacted text when the account asks for it
+const createPreparer = (supabase: AdminClient, provider: EmbeddingProvider | null) => {
+  const settings = new Map<string, Promise<boolean>>();
+  return async (userId: string) => {
+    if (!settings.has(userId)) {
+      settings.set(userId, loadPiiSettings(supabase, userId).then(({ redactExternal }) => redactExternal));
+    }
+    return (await settings.get(userId)) && provider?.external
+      ? (text: string) => redactText(text, detectPii(text))
+      : (text: string) => text;
+  };
+};
+
+// Retrieval chunks for documents that have none, then vectors for chunks
+// stored without one (provider down at analysis time) or with another
+// model's (EMBEDDING_PROVIDER changed). Ask and semantic search only see
+// embedded chunks.
+const backfillChunks = async (supabase: AdminClient, startedAt: number) => {
+  const provider = createEmbeddingProvider();
+  const prepareForUser = createPreparer(supabase, provider);
+  const seen = new Set<string>();
+  let indexed = 0;
+  let embedded = 0;
+
+  while (Date.now() - startedAt < TIME_BUDGET_MS) {
+    const { data: documents, error } = await supabase.rpc('unindexed_documents', { batch_size: BATCH_SIZE });
+    if (error) throw new Error(`Failed to load documents to index: ${error.message}`);
+
+    // Text that yields no chunks (page markers only) would come back forever
+    const pending = (documents ?? []).filter(document => !seen.has(document.file_id));
+    if (pending.length === 0) break;
+
+    for (const document of pending) {
+      seen.add(document.file_id);
+      const result = await indexDocumentChunks(supabase, provider, {
+        fileId: document.file_id,
+        userId: document.user_id,
+        text: document.extracted_text,
+        prepareForProvider: await prepareForUser(document.user_id),
+      });
+      indexed++;
+      embedded += result.embedded;
+    }
+  }
+
+  if (provider && await provider.healthCheck()) {
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const count = await embedPendingChunks(supabase, provider, prepareForUser);
+      if (count === 0) break;
+      embedded += count;
+    }
+  }
+
+  return { indexed, embedded };
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isServiceRoleRequest(req)) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Forbidden' }),
+      {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const startedAt = Date.now();
+    const summary = {
+      pii_scanned: await backfillPii(supabase, startedAt),
+      ...await backfillChunks(supabase, startedAt),
+    };
+
+    console.log('Backfill run finished:', summary);
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+
+  } catch (error) {
+    console.error('Error in backfill-documents function:', error);
+    return new Response(
+      JSON.stringify({ 
+        success: false, 
+        error: error.message 
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,171 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createAdminClient, isServiceRoleRequest } from '../_shared/supabaseAdmin.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Stop claiming new jobs after this long so the worker finishes well inside
+// the edge runtime's wall-clock limit; leftovers are picked up by the next run.
+const TIME_BUDGET_MS = 50_000;
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+interface AnalysisJob {
+  id: string;
+  file_id: string;
+  attempts: number;
+  max_attempts: number;
+  payload: {
+    content?: string;
+    fileName?: string;
+    mimeType?: string;
+  };
+}
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+// Exponential backoff with up to 20% jitter so retries from a provider outage
+// don't all land at once.
+const retryDelayMs = (attempts: number) => {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+};
+
+// Records how a claimed job ended. A failed write is thrown rather than
+// logged: the job would otherwise sit in 'running' with nothing reporting it
+// (claim_analysis_jobs only picks it up again once it goes stale).
+const settleJob = async (supabase: AdminClient, job: AnalysisJob, errorMessage: string | null) => {
+  const isLastAttempt = job.attempts >= job.max_attempts;
+  const changes = errorMessage === null
+    ? { status: 'succeeded', last_error: null }
+    : isLastAttempt
+      ? { status: 'failed', last_error: errorMessage }
+      : {
+        status: 'pending',
+        last_error: errorMessage,
+        next_run_at: new Date(Date.now() + retryDelayMs(job.attempts)).toISOString(),
+      };
+
+  const { error: jobError } = await supabase
+    .from('analysis_jobs')
+    .update({ ...changes, locked_at: null, updated_at: new Date().toISOString() })
+    .eq('id', job.id);
+
+  if (jobError) {
+    throw new Error(`Failed to update analysis job ${job.id}: ${jobError.message}`);
+  }
+
+  if (changes.status === 'failed') {
+    const { error: documentError } = await supabase
+      .from('documents')
+      .update({ status: 'failed' })
+      .eq('file_id', job.file_id);
+
+    if (documentError) {
+      throw new Error(`Failed to mark document ${job.file_id} as failed: ${documentError.message}`);
+    }
+  }
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createAdminClient();
+
+    // The cron schedule runs the whole queue with the service role. Signed-in
+    // users kick the worker after an upload and only get their own jobs run.
+    let ownerId: string | null = null;
+    if (!isServiceRoleRequest(req)) {
+      const token = req.headers.get('Authorization')?.replace(/^Bearer /, '') ?? '';
+      const { data: { user } } = await supabase.auth.getUser(token);
+      if (!user) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Unauthorized' }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      ownerId = user.id;
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const startedAt = Date.now();
+    const summary = { succeeded: 0, retried: 0, failed: 0 };
+
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { data: jobs, error: claimError } = await supabase.rpc('claim_analysis_jobs', { batch_size: 1, owner_filter: ownerId });
+      if (claimError) {
+        throw new Error(`Failed to claim analysis jobs: ${claimError.message}`);
+      }
+
+      const job = (jobs as AnalysisJob[] | null)?.[0];
+      if (!job) break;
+
+      console.log(`Running analysis job ${job.id} for file ${job.file_id} (attempt ${job.attempts}/${job.max_attempts})`);
+      const isLastAttempt = job.attempts >= job.max_attempts;
+
+      let errorMessage: string | null = null;
+      try {
+        const response = await fetch(`${supabaseUrl}/functions/v1/analyze-document`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            fileId: job.file_id,
+            content: job.payload.content,
+            fileName: job.payload.fileName,
+            mimeType: job.payload.mimeType,
+            // Only settle for the canned analysis once retries are exhausted
+            allowBasicFallback: isLastAttempt,
+          }),
+        });
+
+        const result = await response.json().catch(() => null);
+        if (!response.ok || !result?.success) {
+          throw new Error(result?.error || `analyze-document responded with ${response.status}`);
+        }
+      } catch (jobError) {
+        errorMessage = jobError instanceof Error ? jobError.message : String(jobError);
+        console.error(`Analysis job ${job.id} failed:`, errorMessage);
+      }
+
+      await settleJob(supabase, job, errorMessage);
+
+      if (errorMessage === null) summary.succeeded++;
+      else if (isLastAttempt) summary.failed++;
+      else summary.retried++;
+    }
+
+    console.log('Analysis queue run finished:', summary);
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+
+  } catch (error) {
+    console.error('Error in process-analysis-jobs function:', error);
+    return new Response(
+      JSON.stringify({ 
+        success: false, 
+        error: error.message 
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
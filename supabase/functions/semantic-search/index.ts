@@ -0,0 +1,79 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createUserClient } from '../_shared/supabaseUser.ts';
+import { createEmbeddingProvider } from '../_shared/embeddings/index.ts';
+import { detectPii, loadPiiSettings, redactText } from '../_shared/pii.ts';
+import { bestChunkPerDocument, retrieveChunks } from '../_shared/retrieval.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_RESULTS = 50;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { query, limit = 20 } = await req.json();
+
+    if (typeof query !== 'string' || !query.trim()) {
+      throw new Error('Missing required field: query');
+    }
+
+    // Runs as the caller, so only their chunks are searched
+    const supabase = createUserClient(req);
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      throw new Error('User not authenticated');
+    }
+
+    const provider = createEmbeddingProvider();
+    if (!provider) {
+      throw new Error('No embedding provider configured');
+    }
+
+    const piiSettings = await loadPiiSettings(supabase, user.id);
+    const searchText = piiSettings.redactExternal && provider.external
+      ? redactText(query.trim(), detectPii(query.trim()))
+      : query.trim();
+
+    const resultCount = Math.min(Math.max(Number(limit) || 20, 1), MAX_RESULTS);
+
+    // Several chunks of one document often match; fetch extra so there are
+    // still enough distinct documents after keeping the best chunk of each
+    const matches = await retrieveChunks(supabase, provider, searchText, { matchCount: resultCount * 4 });
+    const results = bestChunkPerDocument(matches).slice(0, resultCount).map(match => ({
+      fileId: match.file_id,
+      similarity: match.similarity,
+      passage: match.content,
+      page: match.page,
+      chunkIndex: match.chunk_index,
+      startOffset: match.start_offset,
+      endOffset: match.end_offset,
+    }));
+
+    return new Response(
+      JSON.stringify({ success: true, results }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+
+  } catch (error) {
+    console.error('Error in semantic-search function:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,6 @@
+-- OCR results for image uploads and scanned PDF pages
+ALTER TABLE public.documents ADD COLUMN ocr_confidence DOUBLE PRECISION;
+ALTER TABLE public.documents ADD COLUMN ocr_words JSONB;
+
+COMMENT ON COLUMN public.documents.ocr_confidence IS 'Mean OCR word confidence (0-1); NULL when no OCR was needed';
+COMMENT ON COLUMN public.documents.ocr_words IS 'Recognized words with page number, confidence and pixel bounding box';
@@ -0,0 +1,28 @@
+-- Keep the original uploaded bytes in a private, per-user storage bucket
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('documents', 'documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Objects are stored as <user_id>/<file_id>/<filename>, so the first path
+-- segment identifies the owner
+CREATE POLICY "Users can view their own document files"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'documents' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own document files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'documents' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their own document files"
+ON storage.objects
+FOR UPDATE
+USING (bucket_id = 'documents' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own document files"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'documents' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+ALTER TABLE public.documents ADD COLUMN storage_path TEXT;
@@ -0,0 +1,82 @@
+-- Durable queue for document analysis so work survives closed tabs and
+-- transient provider failures
+CREATE TABLE public.analysis_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES public.documents(file_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  last_error TEXT,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX analysis_jobs_runnable_idx ON public.analysis_jobs (status, next_run_at);
+CREATE INDEX analysis_jobs_file_id_idx ON public.analysis_jobs (file_id);
+
+ALTER TABLE public.analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own analysis jobs"
+ON public.analysis_jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can enqueue their own analysis jobs"
+ON public.analysis_jobs
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND status = 'pending' AND attempts = 0);
+
+-- Claims up to batch_size runnable jobs. Jobs left 'running' longer than
+-- stale_after_seconds belong to a crashed worker and are claimed again.
+-- SKIP LOCKED lets several workers poll concurrently without double-claiming.
+CREATE OR REPLACE FUNCTION public.claim_analysis_jobs(
+  batch_size INTEGER DEFAULT 1,
+  stale_after_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.analysis_jobs
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.analysis_jobs AS job
+  SET status = 'running',
+      attempts = job.attempts + 1,
+      locked_at = now(),
+      updated_at = now()
+  WHERE job.id IN (
+    SELECT candidate.id
+    FROM public.analysis_jobs AS candidate
+    WHERE (candidate.status = 'pending' AND candidate.next_run_at <= now())
+       OR (candidate.status = 'running' AND candidate.locked_at < now() - make_interval(secs => stale_after_seconds))
+    ORDER BY candidate.next_run_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_analysis_jobs(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_analysis_jobs(INTEGER, INTEGER) TO service_role;
+
+-- Poll the queue every minute. Expects 'project_url' and 'service_role_key'
+-- secrets in Vault; uploads also kick the worker directly.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'process-analysis-jobs',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-analysis-jobs',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,5 @@
+-- Schema violations left in LLM output after repair and re-prompting, kept
+-- per provider/model so misbehaving models can be identified
+ALTER TABLE public.documents ADD COLUMN schema_violations JSONB;
+
+COMMENT ON COLUMN public.documents.schema_violations IS 'Array of {provider, model, part, errors} for analysis responses that still failed validation; NULL when the output was valid';
@@ -0,0 +1,12 @@
+-- Classification assigned by the analyzer. Previously the UI derived a label
+-- from the filename on every fetch; doc_type still holds the MIME type until
+-- analysis overwrites it, so it can't be used for this.
+ALTER TABLE public.documents ADD COLUMN classification TEXT;
+
+UPDATE public.documents
+SET classification = doc_type
+WHERE doc_type IN ('report', 'contract', 'invoice', 'letter', 'presentation', 'technical_doc', 'academic', 'legal', 'financial', 'other');
+
+CREATE INDEX idx_documents_user_classification ON public.documents (user_id, classification);
+
+COMMENT ON COLUMN public.documents.classification IS 'Document class from analysis (report, contract, invoice, ...); NULL until analyzed';
@@ -0,0 +1,22 @@
+-- Real file facts and analysis timing, replacing values the UI used to fake
+ALTER TABLE public.documents ADD COLUMN file_size BIGINT;
+ALTER TABLE public.documents ADD COLUMN mime_type TEXT;
+ALTER TABLE public.documents ADD COLUMN analysis_started_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.documents ADD COLUMN analysis_finished_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.documents ADD COLUMN provider_latency_ms INTEGER;
+
+-- Older rows kept the size in entities and the browser-reported MIME type in
+-- doc_type until analysis overwrote it
+UPDATE public.documents
+SET file_size = (entities->>'file_size')::BIGINT
+WHERE entities ? 'file_size' AND entities->>'file_size' ~ '^\d+$';
+
+UPDATE public.documents
+SET mime_type = doc_type
+WHERE doc_type LIKE '%/%';
+
+COMMENT ON COLUMN public.documents.file_size IS 'Size of the original upload in bytes';
+COMMENT ON COLUMN public.documents.mime_type IS 'MIME type detected from the file content at upload';
+COMMENT ON COLUMN public.documents.analysis_started_at IS 'When analyze-document started on this document (latest run)';
+COMMENT ON COLUMN public.documents.analysis_finished_at IS 'When analyze-document stored its result (latest run)';
+COMMENT ON COLUMN public.documents.provider_latency_ms IS 'Total time spent waiting on LLM providers during the latest analysis';
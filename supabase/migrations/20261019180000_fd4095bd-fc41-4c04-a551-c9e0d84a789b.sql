@@ -0,0 +1,34 @@
+-- Analysis results get their own columns; extracted_text goes back to holding
+-- the full text extracted at upload instead of being overwritten by the summary
+ALTER TABLE public.documents ADD COLUMN summary TEXT;
+ALTER TABLE public.documents ADD COLUMN key_points TEXT[];
+ALTER TABLE public.documents ADD COLUMN topics TEXT[];
+ALTER TABLE public.documents ADD COLUMN metadata JSONB;
+
+-- Move existing analysis results out of extracted_text/entities
+UPDATE public.documents
+SET summary = extracted_text,
+    key_points = ARRAY(SELECT jsonb_array_elements_text(entities->'key_points')),
+    topics = ARRAY(SELECT jsonb_array_elements_text(entities->'topics')),
+    metadata = entities->'metadata'
+WHERE entities ? 'analyzed_at';
+
+-- Recover the source text where the queued job payload still has it, otherwise
+-- fall back to the stored preview
+UPDATE public.documents d
+SET extracted_text = j.payload->>'content'
+FROM public.analysis_jobs j
+WHERE j.file_id = d.file_id
+  AND d.entities ? 'analyzed_at'
+  AND j.payload ? 'content';
+
+UPDATE public.documents
+SET extracted_text = entities->>'content_preview'
+WHERE entities ? 'analyzed_at'
+  AND extracted_text = summary;
+
+COMMENT ON COLUMN public.documents.extracted_text IS 'Full text extracted at upload (text layer, OCR, DOCX, ...)';
+COMMENT ON COLUMN public.documents.summary IS 'AI summary from the latest analysis';
+COMMENT ON COLUMN public.documents.key_points IS 'AI key points from the latest analysis';
+COMMENT ON COLUMN public.documents.topics IS 'AI topics from the latest analysis';
+COMMENT ON COLUMN public.documents.metadata IS 'Dates, names, amounts and other values the AI extracted';
@@ -0,0 +1,33 @@
+-- User corrections to AI output. Every FeedbackForm submission is kept, and the
+-- corrected value is applied to the document as-is.
+CREATE TABLE public.document_feedback (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES public.documents(file_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  feedback_type TEXT NOT NULL CHECK (feedback_type IN ('summary', 'classification')),
+  original_value TEXT,
+  corrected_value TEXT NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_document_feedback_file_id ON public.document_feedback (file_id);
+CREATE INDEX idx_document_feedback_user_created ON public.document_feedback (user_id, created_at DESC);
+
+ALTER TABLE public.document_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own feedback"
+ON public.document_feedback
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert feedback on their own documents"
+ON public.document_feedback
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.file_id = document_feedback.file_id AND d.user_id = auth.uid()
+  )
+);
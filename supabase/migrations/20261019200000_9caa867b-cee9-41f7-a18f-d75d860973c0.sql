@@ -0,0 +1,44 @@
+-- Per-account preferences. A missing row means defaults apply.
+CREATE TABLE public.account_settings (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  few_shot_enabled BOOLEAN NOT NULL DEFAULT true,
+  few_shot_max_examples INTEGER NOT NULL DEFAULT 5 CHECK (few_shot_max_examples BETWEEN 0 AND 20),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.account_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own settings"
+ON public.account_settings
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own settings"
+ON public.account_settings
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+ON public.account_settings
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_account_settings_updated_at
+BEFORE UPDATE ON public.account_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON COLUMN public.account_settings.few_shot_enabled IS 'Include the user''s past corrections as examples when analyzing new documents';
+COMMENT ON COLUMN public.account_settings.few_shot_max_examples IS 'Upper bound on correction examples added to each analysis prompt';
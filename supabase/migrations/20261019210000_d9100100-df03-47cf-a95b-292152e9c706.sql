@@ -0,0 +1,44 @@
+-- Human review of low-confidence analyses. A reviewed document moves to
+-- status 'reviewed'; every accept/correct decision is kept with the reviewer.
+ALTER TABLE public.documents ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE public.documents ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.review_decisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES public.documents(file_id) ON DELETE CASCADE,
+  reviewer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  decision TEXT NOT NULL CHECK (decision IN ('accepted', 'corrected')),
+  -- {field: {from, to}} for every field the reviewer changed
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  confidence_before DOUBLE PRECISION,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_review_decisions_file_id ON public.review_decisions (file_id);
+
+-- Serves the queue: analyzed documents ordered by confidence, then age
+CREATE INDEX idx_documents_review_queue ON public.documents (user_id, confidence, created_at)
+WHERE status = 'uploaded';
+
+ALTER TABLE public.review_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reviews of their own documents"
+ON public.review_decisions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.file_id = review_decisions.file_id AND d.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can review their own documents"
+ON public.review_decisions
+FOR INSERT
+WITH CHECK (
+  auth.uid() = reviewer_id
+  AND EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.file_id = review_decisions.file_id AND d.user_id = auth.uid()
+  )
+);
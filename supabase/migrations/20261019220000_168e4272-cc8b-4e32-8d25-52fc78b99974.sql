@@ -0,0 +1,103 @@
+-- Per-account document taxonomy. The analyzer may only assign these names, and
+-- the UI filters and analytics are built from the same list.
+CREATE TABLE public.document_types (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT NOT NULL DEFAULT '',
+  examples TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.document_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document types"
+ON public.document_types
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own document types"
+ON public.document_types
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own document types"
+ON public.document_types
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own document types"
+ON public.document_types
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_document_types_updated_at
+BEFORE UPDATE ON public.document_types
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Renaming a type relabels the account's documents so they stay filterable
+CREATE OR REPLACE FUNCTION public.rename_document_classification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.name <> OLD.name THEN
+    UPDATE public.documents
+    SET classification = NEW.name, doc_type = NEW.name
+    WHERE user_id = NEW.user_id AND classification = OLD.name;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rename_document_classification
+AFTER UPDATE OF name ON public.document_types
+FOR EACH ROW
+EXECUTE FUNCTION public.rename_document_classification();
+
+-- The previous fixed list becomes every account's starting taxonomy
+CREATE OR REPLACE FUNCTION public.seed_document_types(target_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.document_types (user_id, name, description, examples)
+  VALUES
+    (target_user_id, 'report', 'Status, research or analysis reports', ARRAY['Quarterly business review', 'Incident report']),
+    (target_user_id, 'contract', 'Agreements between parties with terms and signatures', ARRAY['Service agreement', 'Employment contract']),
+    (target_user_id, 'invoice', 'Bills requesting payment for goods or services', ARRAY['Supplier invoice', 'Utility bill']),
+    (target_user_id, 'letter', 'Correspondence addressed to a person or organization', ARRAY['Cover letter', 'Notice from a landlord']),
+    (target_user_id, 'presentation', 'Slide decks and pitch material', ARRAY['Sales deck', 'Conference slides']),
+    (target_user_id, 'technical_doc', 'Manuals, specifications and technical documentation', ARRAY['API reference', 'Installation guide']),
+    (target_user_id, 'academic', 'Papers, theses and coursework', ARRAY['Journal article', 'Lecture notes']),
+    (target_user_id, 'legal', 'Legal filings, policies and regulatory documents', ARRAY['Court filing', 'Privacy policy']),
+    (target_user_id, 'financial', 'Statements, budgets and other financial records', ARRAY['Bank statement', 'Annual budget']),
+    (target_user_id, 'other', 'Anything that fits none of the other types', ARRAY[]::TEXT[])
+  ON CONFLICT (user_id, name) DO NOTHING;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.seed_document_types(UUID) FROM PUBLIC, anon, authenticated;
+
+SELECT public.seed_document_types(id) FROM auth.users;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user_document_types()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.seed_document_types(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created_seed_document_types
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_user_document_types();
@@ -0,0 +1,29 @@
+-- Typed fields pulled out of a document by its type's extraction schema
+-- (invoice number, due date, governing law, ...). Written by analyze-document
+-- with the service role and replaced on every re-analysis.
+CREATE TABLE public.document_fields (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES public.documents(file_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  field_key TEXT NOT NULL,
+  field_label TEXT NOT NULL,
+  field_type TEXT NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'list')),
+  position INTEGER NOT NULL DEFAULT 0,
+  -- As the model returned it; the typed column is set when it parses
+  value_text TEXT,
+  value_number NUMERIC,
+  value_date DATE,
+  value_list TEXT[],
+  confidence REAL CHECK (confidence IS NULL OR (confidence >= 0 AND confidence <= 1)),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (file_id, field_key)
+);
+
+CREATE INDEX idx_document_fields_user_key ON public.document_fields (user_id, field_key);
+
+ALTER TABLE public.document_fields ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document fields"
+ON public.document_fields
+FOR SELECT
+USING (auth.uid() = user_id);
@@ -0,0 +1,9 @@
+-- Line items extracted from invoices and financial documents, with the result
+-- of checking them against the document's stated totals.
+ALTER TABLE public.documents
+ADD COLUMN line_items JSONB,
+ADD COLUMN line_items_mismatch BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_documents_line_items_mismatch
+ON public.documents (user_id)
+WHERE line_items_mismatch;
@@ -0,0 +1,35 @@
+-- Personal data found in documents.extracted_text, as character offsets so the
+-- values themselves aren't copied anywhere else. Written by analyze-document.
+CREATE TABLE public.document_pii (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES public.documents(file_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  pii_type TEXT NOT NULL CHECK (pii_type IN ('email', 'phone', 'iban', 'credit_card', 'national_id', 'address', 'person_name')),
+  start_offset INTEGER NOT NULL CHECK (start_offset >= 0),
+  end_offset INTEGER NOT NULL,
+  confidence REAL NOT NULL CHECK (confidence >= 0 AND confidence <= 1),
+  detector TEXT NOT NULL CHECK (detector IN ('regex', 'llm')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_offset > start_offset)
+);
+
+CREATE INDEX idx_document_pii_file_id ON public.document_pii (file_id);
+
+ALTER TABLE public.document_pii ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document PII"
+ON public.document_pii
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- redact_external_providers: providers outside our infrastructure (OpenAI, ...)
+-- only receive redacted text. pii_llm_assist: a local model looks for personal
+-- data the patterns miss.
+ALTER TABLE public.account_settings
+ADD COLUMN redact_external_providers BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN pii_llm_assist BOOLEAN NOT NULL DEFAULT false;
+
+-- The upload-time preview was a verbatim copy of the first 200 characters
+UPDATE public.documents
+SET entities = entities - 'content_preview'
+WHERE entities ? 'content_preview';
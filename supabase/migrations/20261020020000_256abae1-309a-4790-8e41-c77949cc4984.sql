@@ -0,0 +1,70 @@
+-- Chunk-level embeddings for semantic search and question answering. Chunks
+-- keep their offsets into documents.extracted_text and the page they start on.
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE public.document_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES public.documents(file_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  page INTEGER,
+  -- Vectors are only comparable within one model, so the model is recorded
+  -- and searches filter on it
+  embedding extensions.vector(768),
+  embedding_model TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (file_id, chunk_index)
+);
+
+CREATE INDEX idx_document_chunks_user_id ON public.document_chunks (user_id);
+CREATE INDEX idx_document_chunks_embedding
+ON public.document_chunks
+USING hnsw (embedding extensions.vector_cosine_ops);
+
+ALTER TABLE public.document_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document chunks"
+ON public.document_chunks
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Nearest chunks to a query embedding among the caller's documents. Runs with
+-- the caller's rights, so RLS applies as well.
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(768),
+  embedding_model TEXT,
+  match_count INTEGER DEFAULT 20,
+  min_similarity DOUBLE PRECISION DEFAULT 0.3
+)
+RETURNS TABLE (
+  file_id UUID,
+  chunk_index INTEGER,
+  content TEXT,
+  start_offset INTEGER,
+  end_offset INTEGER,
+  page INTEGER,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.file_id,
+    c.chunk_index,
+    c.content,
+    c.start_offset,
+    c.end_offset,
+    c.page,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.document_chunks c
+  WHERE c.user_id = auth.uid()
+    AND c.embedding IS NOT NULL
+    AND c.embedding_model = match_document_chunks.embedding_model
+    AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
@@ -0,0 +1,75 @@
+-- Full-text search over documents: a generated tsvector with a GIN index, and
+-- an RPC that ranks matches and returns highlighted snippets. Queries go
+-- through websearch_to_tsquery, so quotes, OR and -exclusions work and the
+-- search text is always passed as a parameter.
+
+-- array_to_string is only STABLE, which generated columns don't accept. It is
+-- immutable for text arrays, so a thin wrapper is safe here.
+CREATE OR REPLACE FUNCTION public.immutable_array_to_string(value TEXT[], separator TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT array_to_string(value, separator);
+$$;
+
+-- Filenames are split on the usual separators so "acme_contract-2024.pdf"
+-- matches "acme contract". Extracted text is capped to stay well inside the
+-- 1 MB tsvector limit.
+ALTER TABLE public.documents
+ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', translate(coalesce(filename, ''), '_.-', '   ')), 'A') ||
+  setweight(to_tsvector('english', coalesce(summary, '')), 'B') ||
+  setweight(to_tsvector('english',
+    coalesce(public.immutable_array_to_string(topics, ' '), '') || ' ' ||
+    coalesce(public.immutable_array_to_string(key_points, ' '), '')
+  ), 'B') ||
+  setweight(to_tsvector('english', left(coalesce(extracted_text, ''), 500000)), 'C')
+) STORED;
+
+CREATE INDEX idx_documents_search_vector ON public.documents USING gin (search_vector);
+
+-- Every match among the caller's documents under the file list's filters,
+-- best first. The filters are applied here rather than to the returned ids,
+-- so no match is cut off before filtering. Snippets mark hits with U+E000 and
+-- U+E001 rather than HTML, so the client can highlight them without
+-- rendering document text as markup.
+CREATE OR REPLACE FUNCTION public.search_documents(
+  search_query TEXT,
+  status_filter TEXT DEFAULT NULL,
+  classification_filter TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  file_id UUID,
+  rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH parsed AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  ),
+  ranked AS (
+    SELECT d.file_id, d.created_at, d.summary, d.extracted_text, ts_rank(d.search_vector, parsed.q) AS rank
+    FROM public.documents d, parsed
+    WHERE d.user_id = auth.uid()
+      AND d.search_vector @@ parsed.q
+      AND (status_filter IS NULL OR d.status = status_filter)
+      AND (classification_filter IS NULL OR d.classification = classification_filter)
+  )
+  -- ts_headline reparses the text, so it is capped
+  SELECT
+    ranked.file_id,
+    ranked.rank,
+    ts_headline(
+      'english',
+      left(coalesce(ranked.summary, '') || E'\n' || coalesce(ranked.extracted_text, ''), 200000),
+      parsed.q,
+      format('StartSel=%s, StopSel=%s, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "', chr(57344), chr(57345))
+    ) AS snippet
+  FROM ranked, parsed
+  ORDER BY ranked.rank DESC, ranked.created_at DESC, ranked.file_id;
+$$;
@@ -0,0 +1,101 @@
+-- The file list is now paged in the database; these cover its sort orders so
+-- a page doesn't require sorting all of the user's documents. file_id is the
+-- tiebreaker getFiles adds for stable offsets.
+CREATE INDEX idx_documents_user_created_at ON public.documents (user_id, created_at DESC, file_id);
+CREATE INDEX idx_documents_user_filename ON public.documents (user_id, filename, file_id);
+CREATE INDEX idx_documents_user_file_size ON public.documents (user_id, file_size DESC NULLS LAST, file_id);
+
+-- Keyword search pages the same way: search_documents applies the file
+-- list's filters, sorts and pages itself, and reports the total, so a search
+-- is neither capped nor sorted and paged in the client.
+DROP FUNCTION public.search_documents(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.search_documents(
+  search_query TEXT,
+  status_filter TEXT DEFAULT NULL,
+  -- pdf, doc or image, matched on mime_type like FILE_TYPE_FILTERS in getFiles
+  kind_filter TEXT DEFAULT NULL,
+  classification_filter TEXT DEFAULT NULL,
+  file_id_filter UUID[] DEFAULT NULL,
+  -- relevance, date, name, size or confidence, as in the file list
+  sort_by TEXT DEFAULT 'relevance',
+  page_offset INTEGER DEFAULT 0,
+  -- NULL returns every match
+  page_limit INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  file_id UUID,
+  rank REAL,
+  snippet TEXT,
+  -- Matches across all pages
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH parsed AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  ),
+  matched AS (
+    SELECT
+      d.file_id,
+      d.filename,
+      d.created_at,
+      d.file_size,
+      d.confidence,
+      d.summary,
+      d.extracted_text,
+      ts_rank(d.search_vector, parsed.q) AS rank
+    FROM public.documents d, parsed
+    WHERE d.user_id = auth.uid()
+      AND d.search_vector @@ parsed.q
+      AND (status_filter IS NULL OR d.status = status_filter)
+      AND (kind_filter IS NULL OR CASE kind_filter
+        WHEN 'pdf' THEN d.mime_type ILIKE '%pdf%'
+        WHEN 'doc' THEN d.mime_type ILIKE '%word%' OR d.mime_type ILIKE '%document%'
+        WHEN 'image' THEN d.mime_type ILIKE 'image/%'
+        ELSE TRUE
+      END)
+      AND (classification_filter IS NULL OR d.classification = classification_filter)
+      AND (file_id_filter IS NULL OR d.file_id = ANY (file_id_filter))
+  ),
+  -- Same orders as getFiles, with created_at and file_id breaking ties so
+  -- offset pages don't overlap
+  ordered AS (
+    SELECT
+      m.*,
+      count(*) OVER () AS total_count,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN sort_by = 'relevance' THEN m.rank END DESC NULLS LAST,
+          CASE WHEN sort_by = 'name' THEN m.filename END ASC,
+          CASE WHEN sort_by = 'size' THEN m.file_size END DESC NULLS LAST,
+          CASE WHEN sort_by = 'confidence' THEN m.confidence END DESC NULLS LAST,
+          m.created_at DESC NULLS LAST,
+          m.file_id
+      ) AS position
+    FROM matched m
+  ),
+  page AS (
+    SELECT *
+    FROM ordered
+    ORDER BY position
+    OFFSET page_offset
+    LIMIT page_limit
+  )
+  -- Headlines are only built for the page; ts_headline reparses the text, so
+  -- it is also capped
+  SELECT
+    page.file_id,
+    page.rank,
+    ts_headline(
+      'english',
+      left(coalesce(page.summary, '') || E'\n' || coalesce(page.extracted_text, ''), 200000),
+      parsed.q,
+      format('StartSel=%s, StopSel=%s, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "', chr(57344), chr(57345))
+    ) AS snippet,
+    page.total_count
+  FROM page, parsed
+  ORDER BY page.position;
+$$;
@@ -0,0 +1,212 @@
+-- Facets for the file list. Each facet is a generated column so the list
+-- filter (getFiles) and the counts (document_facets) share one definition.
+ALTER TABLE public.documents
+ADD COLUMN file_kind TEXT GENERATED ALWAYS AS (
+  CASE
+    WHEN mime_type ILIKE '%pdf%' THEN 'pdf'
+    WHEN mime_type ILIKE 'image/%' THEN 'image'
+    WHEN mime_type ILIKE '%word%' OR mime_type ILIKE '%document%' THEN 'doc'
+    ELSE 'other'
+  END
+) STORED,
+-- Same cut-offs as the confidence badges; below 0.7 goes to review
+ADD COLUMN confidence_band TEXT GENERATED ALWAYS AS (
+  CASE
+    WHEN confidence IS NULL THEN NULL
+    WHEN confidence >= 0.9 THEN 'high'
+    WHEN confidence >= 0.7 THEN 'medium'
+    ELSE 'low'
+  END
+) STORED,
+ADD COLUMN analysis_method TEXT GENERATED ALWAYS AS (entities->>'analysis_method') STORED,
+-- needs_review matches the review queue (getReviewQueue)
+ADD COLUMN review_state TEXT GENERATED ALWAYS AS (
+  CASE
+    WHEN reviewed_at IS NOT NULL THEN 'reviewed'
+    WHEN status = 'uploaded' AND (confidence IS NULL OR confidence < 0.7) THEN 'needs_review'
+    ELSE 'unreviewed'
+  END
+) STORED;
+
+CREATE INDEX idx_documents_topics ON public.documents USING gin (topics);
+
+-- Value counts per facet for the caller's documents under the given filters.
+-- Single-valued facets are counted without their own selection, so the other
+-- values stay visible as alternatives; topics combine with AND, so their
+-- counts include the selected topics.
+CREATE OR REPLACE FUNCTION public.document_facets(
+  search_query TEXT DEFAULT NULL,
+  status_filter TEXT DEFAULT NULL,
+  kind_filter TEXT DEFAULT NULL,
+  file_id_filter UUID[] DEFAULT NULL,
+  classification_filter TEXT[] DEFAULT NULL,
+  topic_filter TEXT[] DEFAULT NULL,
+  uploaded_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  uploaded_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  confidence_filter TEXT[] DEFAULT NULL,
+  method_filter TEXT[] DEFAULT NULL,
+  review_filter TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  document_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH flagged AS (
+    SELECT
+      d.classification,
+      d.topics,
+      d.confidence_band,
+      d.analysis_method,
+      d.review_state,
+      (classification_filter IS NULL OR d.classification = ANY (classification_filter)) AS in_classification,
+      (topic_filter IS NULL OR d.topics @> topic_filter) AS in_topics,
+      (confidence_filter IS NULL OR d.confidence_band = ANY (confidence_filter)) AS in_confidence,
+      (method_filter IS NULL OR d.analysis_method = ANY (method_filter)) AS in_method,
+      (review_filter IS NULL OR d.review_state = ANY (review_filter)) AS in_review
+    FROM public.documents d
+    WHERE d.user_id = auth.uid()
+      AND (status_filter IS NULL OR d.status = status_filter)
+      AND (kind_filter IS NULL OR d.file_kind = kind_filter)
+      AND (file_id_filter IS NULL OR d.file_id = ANY (file_id_filter))
+      AND (uploaded_from IS NULL OR d.created_at >= uploaded_from)
+      AND (uploaded_before IS NULL OR d.created_at < uploaded_before)
+      AND (search_query IS NULL OR d.search_vector @@ websearch_to_tsquery('english', search_query))
+  )
+  SELECT 'classification', classification, count(*)
+  FROM flagged
+  WHERE classification IS NOT NULL AND in_topics AND in_confidence AND in_method AND in_review
+  GROUP BY classification
+
+  UNION ALL
+
+  SELECT 'topic', topic, count(*)
+  FROM flagged, unnest(flagged.topics) AS topic
+  WHERE in_classification AND in_topics AND in_confidence AND in_method AND in_review
+  GROUP BY topic
+
+  UNION ALL
+
+  SELECT 'confidence', confidence_band, count(*)
+  FROM flagged
+  WHERE confidence_band IS NOT NULL AND in_classification AND in_topics AND in_method AND in_review
+  GROUP BY confidence_band
+
+  UNION ALL
+
+  SELECT 'method', analysis_method, count(*)
+  FROM flagged
+  WHERE analysis_method IS NOT NULL AND in_classification AND in_topics AND in_confidence AND in_review
+  GROUP BY analysis_method
+
+  UNION ALL
+
+  SELECT 'review', review_state, count(*)
+  FROM flagged
+  WHERE in_classification AND in_topics AND in_confidence AND in_method
+  GROUP BY review_state;
+$$;
+
+-- Keyword search takes the same filters as the facets, with classification
+-- now multi-valued and the type matched on file_kind
+DROP FUNCTION public.search_documents(TEXT, TEXT, TEXT, TEXT, UUID[], TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_documents(
+  search_query TEXT,
+  status_filter TEXT DEFAULT NULL,
+  kind_filter TEXT DEFAULT NULL,
+  file_id_filter UUID[] DEFAULT NULL,
+  classification_filter TEXT[] DEFAULT NULL,
+  topic_filter TEXT[] DEFAULT NULL,
+  uploaded_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  uploaded_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  confidence_filter TEXT[] DEFAULT NULL,
+  method_filter TEXT[] DEFAULT NULL,
+  review_filter TEXT[] DEFAULT NULL,
+  -- relevance, date, name, size or confidence, as in the file list
+  sort_by TEXT DEFAULT 'relevance',
+  page_offset INTEGER DEFAULT 0,
+  -- NULL returns every match
+  page_limit INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  file_id UUID,
+  rank REAL,
+  snippet TEXT,
+  -- Matches across all pages
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH parsed AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  ),
+  matched AS (
+    SELECT
+      d.file_id,
+      d.filename,
+      d.created_at,
+      d.file_size,
+      d.confidence,
+      d.summary,
+      d.extracted_text,
+      ts_rank(d.search_vector, parsed.q) AS rank
+    FROM public.documents d, parsed
+    WHERE d.user_id = auth.uid()
+      AND d.search_vector @@ parsed.q
+      AND (status_filter IS NULL OR d.status = status_filter)
+      AND (kind_filter IS NULL OR d.file_kind = kind_filter)
+      AND (file_id_filter IS NULL OR d.file_id = ANY (file_id_filter))
+      AND (classification_filter IS NULL OR d.classification = ANY (classification_filter))
+      AND (topic_filter IS NULL OR d.topics @> topic_filter)
+      AND (uploaded_from IS NULL OR d.created_at >= uploaded_from)
+      AND (uploaded_before IS NULL OR d.created_at < uploaded_before)
+      AND (confidence_filter IS NULL OR d.confidence_band = ANY (confidence_filter))
+      AND (method_filter IS NULL OR d.analysis_method = ANY (method_filter))
+      AND (review_filter IS NULL OR d.review_state = ANY (review_filter))
+  ),
+  -- Same orders as getFiles, with created_at and file_id breaking ties so
+  -- offset pages don't overlap
+  ordered AS (
+    SELECT
+      m.*,
+      count(*) OVER () AS total_count,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN sort_by = 'relevance' THEN m.rank END DESC NULLS LAST,
+          CASE WHEN sort_by = 'name' THEN m.filename END ASC,
+          CASE WHEN sort_by = 'size' THEN m.file_size END DESC NULLS LAST,
+          CASE WHEN sort_by = 'confidence' THEN m.confidence END DESC NULLS LAST,
+          m.created_at DESC NULLS LAST,
+          m.file_id
+      ) AS position
+    FROM matched m
+  ),
+  page AS (
+    SELECT *
+    FROM ordered
+    ORDER BY position
+    OFFSET page_offset
+    LIMIT page_limit
+  )
+  -- Headlines are only built for the page; ts_headline reparses the text, so
+  -- it is also capped
+  SELECT
+    page.file_id,
+    page.rank,
+    ts_headline(
+      'english',
+      left(coalesce(page.summary, '') || E'\n' || coalesce(page.extracted_text, ''), 200000),
+      parsed.q,
+      format('StartSel=%s, StopSel=%s, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "', chr(57344), chr(57345))
+    ) AS snippet,
+    page.total_count
+  FROM page, parsed
+  ORDER BY page.position;
+$$;
@@ -0,0 +1,41 @@
+-- Named file list filters per user. query holds the filters as the file list
+-- encodes them in its URL, so a saved search opens exactly that view and
+-- picks up filters added later without a schema change. Pinned searches are
+-- shown as smart folders.
+CREATE TABLE public.saved_searches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  query TEXT NOT NULL DEFAULT '',
+  pinned BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved searches"
+ON public.saved_searches
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own saved searches"
+ON public.saved_searches
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches"
+ON public.saved_searches
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+ON public.saved_searches
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_searches_updated_at
+BEFORE UPDATE ON public.saved_searches
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,405 @@
+-- Manual organization next to the AI classification: nested collections
+-- (folders) and colored tags, each linked to documents many-to-many.
+CREATE TABLE public.collections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL for top-level collections; deleting a collection deletes its subtree
+  parent_id UUID REFERENCES public.collections(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (user_id, parent_id, name)
+);
+
+CREATE INDEX idx_collections_parent_id ON public.collections (parent_id);
+
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own collections"
+ON public.collections
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own collections"
+ON public.collections
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    parent_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.collections p WHERE p.id = parent_id AND p.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can update their own collections"
+ON public.collections
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    parent_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.collections p WHERE p.id = parent_id AND p.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can delete their own collections"
+ON public.collections
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_collections_updated_at
+BEFORE UPDATE ON public.collections
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A collection can't become its own ancestor
+CREATE OR REPLACE FUNCTION public.prevent_collection_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT c.id, c.parent_id FROM public.collections c WHERE c.id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id FROM public.collections c JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE ancestors.id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A collection cannot be moved into itself or one of its subcollections';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_collection_cycle
+BEFORE INSERT OR UPDATE OF parent_id ON public.collections
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_collection_cycle();
+
+CREATE TABLE public.collection_documents (
+  collection_id UUID NOT NULL REFERENCES public.collections(id) ON DELETE CASCADE,
+  file_id UUID NOT NULL REFERENCES public.documents(file_id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (collection_id, file_id)
+);
+
+CREATE INDEX idx_collection_documents_file_id ON public.collection_documents (file_id);
+
+ALTER TABLE public.collection_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own collection documents"
+ON public.collection_documents
+FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.collections c WHERE c.id = collection_documents.collection_id AND c.user_id = auth.uid())
+);
+
+-- Both sides must belong to the caller
+CREATE POLICY "Users can add their own documents to their own collections"
+ON public.collection_documents
+FOR INSERT
+WITH CHECK (
+  EXISTS (SELECT 1 FROM public.collections c WHERE c.id = collection_documents.collection_id AND c.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.documents d WHERE d.file_id = collection_documents.file_id AND d.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can remove documents from their own collections"
+ON public.collection_documents
+FOR DELETE
+USING (
+  EXISTS (SELECT 1 FROM public.collections c WHERE c.id = collection_documents.collection_id AND c.user_id = auth.uid())
+);
+
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  color TEXT NOT NULL DEFAULT '#6366f1' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tags"
+ON public.tags
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own tags"
+ON public.tags
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags"
+ON public.tags
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+ON public.tags
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_tags_updated_at
+BEFORE UPDATE ON public.tags
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.document_tags (
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  file_id UUID NOT NULL REFERENCES public.documents(file_id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (tag_id, file_id)
+);
+
+CREATE INDEX idx_document_tags_file_id ON public.document_tags (file_id);
+
+ALTER TABLE public.document_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document tags"
+ON public.document_tags
+FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.tags t WHERE t.id = document_tags.tag_id AND t.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can tag their own documents with their own tags"
+ON public.document_tags
+FOR INSERT
+WITH CHECK (
+  EXISTS (SELECT 1 FROM public.tags t WHERE t.id = document_tags.tag_id AND t.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.documents d WHERE d.file_id = document_tags.file_id AND d.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can untag their own documents"
+ON public.document_tags
+FOR DELETE
+USING (
+  EXISTS (SELECT 1 FROM public.tags t WHERE t.id = document_tags.tag_id AND t.user_id = auth.uid())
+);
+
+-- Computed fields, so getFiles can filter with tag_ids=cs.{...} and
+-- collection_ids=ov.{...} without loading the link tables
+CREATE OR REPLACE FUNCTION public.tag_ids(public.documents)
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(array_agg(dt.tag_id), '{}') FROM public.document_tags dt WHERE dt.file_id = $1.file_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.collection_ids(public.documents)
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(array_agg(cd.collection_id), '{}') FROM public.collection_documents cd WHERE cd.file_id = $1.file_id;
+$$;
+
+-- document_facets gains the collection and tag filters and a tag facet. Tags
+-- combine with AND, like topics. collection_filter is the selected
+-- collection and its subcollections.
+DROP FUNCTION public.document_facets(TEXT, TEXT, TEXT, UUID[], TEXT[], TEXT[], TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT[], TEXT[], TEXT[]);
+
+CREATE OR REPLACE FUNCTION public.document_facets(
+  search_query TEXT DEFAULT NULL,
+  status_filter TEXT DEFAULT NULL,
+  kind_filter TEXT DEFAULT NULL,
+  file_id_filter UUID[] DEFAULT NULL,
+  collection_filter UUID[] DEFAULT NULL,
+  classification_filter TEXT[] DEFAULT NULL,
+  topic_filter TEXT[] DEFAULT NULL,
+  tag_filter UUID[] DEFAULT NULL,
+  uploaded_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  uploaded_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  confidence_filter TEXT[] DEFAULT NULL,
+  method_filter TEXT[] DEFAULT NULL,
+  review_filter TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  document_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH scoped AS (
+    SELECT d.*, public.tag_ids(d) AS tags
+    FROM public.documents d
+    WHERE d.user_id = auth.uid()
+      AND (status_filter IS NULL OR d.status = status_filter)
+      AND (kind_filter IS NULL OR d.file_kind = kind_filter)
+      AND (file_id_filter IS NULL OR d.file_id = ANY (file_id_filter))
+      AND (collection_filter IS NULL OR public.collection_ids(d) && collection_filter)
+      AND (uploaded_from IS NULL OR d.created_at >= uploaded_from)
+      AND (uploaded_before IS NULL OR d.created_at < uploaded_before)
+      AND (search_query IS NULL OR d.search_vector @@ websearch_to_tsquery('english', search_query))
+  ),
+  flagged AS (
+    SELECT
+      s.classification,
+      s.topics,
+      s.tags,
+      s.confidence_band,
+      s.analysis_method,
+      s.review_state,
+      (classification_filter IS NULL OR s.classification = ANY (classification_filter)) AS in_classification,
+      (topic_filter IS NULL OR s.topics @> topic_filter) AS in_topics,
+      (tag_filter IS NULL OR s.tags @> tag_filter) AS in_tags,
+      (confidence_filter IS NULL OR s.confidence_band = ANY (confidence_filter)) AS in_confidence,
+      (method_filter IS NULL OR s.analysis_method = ANY (method_filter)) AS in_method,
+      (review_filter IS NULL OR s.review_state = ANY (review_filter)) AS in_review
+    FROM scoped s
+  )
+  SELECT 'classification', classification, count(*)
+  FROM flagged
+  WHERE classification IS NOT NULL AND in_topics AND in_tags AND in_confidence AND in_method AND in_review
+  GROUP BY classification
+
+  UNION ALL
+
+  SELECT 'topic', topic, count(*)
+  FROM flagged, unnest(flagged.topics) AS topic
+  WHERE in_classification AND in_topics AND in_tags AND in_confidence AND in_method AND in_review
+  GROUP BY topic
+
+  UNION ALL
+
+  SELECT 'tag', tag_id::TEXT, count(*)
+  FROM flagged, unnest(flagged.tags) AS tag_id
+  WHERE in_classification AND in_topics AND in_tags AND in_confidence AND in_method AND in_review
+  GROUP BY tag_id
+
+  UNION ALL
+
+  SELECT 'confidence', confidence_band, count(*)
+  FROM flagged
+  WHERE confidence_band IS NOT NULL AND in_classification AND in_topics AND in_tags AND in_method AND in_review
+  GROUP BY confidence_band
+
+  UNION ALL
+
+  SELECT 'method', analysis_method, count(*)
+  FROM flagged
+  WHERE analysis_method IS NOT NULL AND in_classification AND in_topics AND in_tags AND in_confidence AND in_review
+  GROUP BY analysis_method
+
+  UNION ALL
+
+  SELECT 'review', review_state, count(*)
+  FROM flagged
+  WHERE in_classification AND in_topics AND in_tags AND in_confidence AND in_method
+  GROUP BY review_state;
+$$;
+
+-- search_documents takes the same collection and tag filters
+DROP FUNCTION public.search_documents(TEXT, TEXT, TEXT, UUID[], TEXT[], TEXT[], TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT[], TEXT[], TEXT[], TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_documents(
+  search_query TEXT,
+  status_filter TEXT DEFAULT NULL,
+  kind_filter TEXT DEFAULT NULL,
+  file_id_filter UUID[] DEFAULT NULL,
+  collection_filter UUID[] DEFAULT NULL,
+  classification_filter TEXT[] DEFAULT NULL,
+  topic_filter TEXT[] DEFAULT NULL,
+  tag_filter UUID[] DEFAULT NULL,
+  uploaded_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  uploaded_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  confidence_filter TEXT[] DEFAULT NULL,
+  method_filter TEXT[] DEFAULT NULL,
+  review_filter TEXT[] DEFAULT NULL,
+  -- relevance, date, name, size or confidence, as in the file list
+  sort_by TEXT DEFAULT 'relevance',
+  page_offset INTEGER DEFAULT 0,
+  -- NULL returns every match
+  page_limit INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  file_id UUID,
+  rank REAL,
+  snippet TEXT,
+  -- Matches across all pages
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH parsed AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  ),
+  matched AS (
+    SELECT
+      d.file_id,
+      d.filename,
+      d.created_at,
+      d.file_size,
+      d.confidence,
+      d.summary,
+      d.extracted_text,
+      ts_rank(d.search_vector, parsed.q) AS rank
+    FROM public.documents d, parsed
+    WHERE d.user_id = auth.uid()
+      AND d.search_vector @@ parsed.q
+      AND (status_filter IS NULL OR d.status = status_filter)
+      AND (kind_filter IS NULL OR d.file_kind = kind_filter)
+      AND (file_id_filter IS NULL OR d.file_id = ANY (file_id_filter))
+      AND (collection_filter IS NULL OR public.collection_ids(d) && collection_filter)
+      AND (classification_filter IS NULL OR d.classification = ANY (classification_filter))
+      AND (topic_filter IS NULL OR d.topics @> topic_filter)
+      AND (tag_filter IS NULL OR public.tag_ids(d) @> tag_filter)
+      AND (uploaded_from IS NULL OR d.created_at >= uploaded_from)
+      AND (uploaded_before IS NULL OR d.created_at < uploaded_before)
+      AND (confidence_filter IS NULL OR d.confidence_band = ANY (confidence_filter))
+      AND (method_filter IS NULL OR d.analysis_method = ANY (method_filter))
+      AND (review_filter IS NULL OR d.review_state = ANY (review_filter))
+  ),
+  -- Same orders as getFiles, with created_at and file_id breaking ties so
+  -- offset pages don't overlap
+  ordered AS (
+    SELECT
+      m.*,
+      count(*) OVER () AS total_count,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN sort_by = 'relevance' THEN m.rank END DESC NULLS LAST,
+          CASE WHEN sort_by = 'name' THEN m.filename END ASC,
+          CASE WHEN sort_by = 'size' THEN m.file_size END DESC NULLS LAST,
+          CASE WHEN sort_by = 'confidence' THEN m.confidence END DESC NULLS LAST,
+          m.created_at DESC NULLS LAST,
+          m.file_id
+      ) AS position
+    FROM matched m
+  ),
+  page AS (
+    SELECT *
+    FROM ordered
+    ORDER BY position
+    OFFSET page_offset
+    LIMIT page_limit
+  )
+  -- Headlines are only built for the page; ts_headline reparses the text, so
+  -- it is also capped
+  SELECT
+    page.file_id,
+    page.rank,
+    ts_headline(
+      'english',
+      left(coalesce(page.summary, '') || E'\n' || coalesce(page.extracted_text, ''), 200000),
+      parsed.q,
+      format('StartSel=%s, StopSel=%s, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "', chr(57344), chr(57345))
+    ) AS snippet,
+    page.total_count
+  FROM page, parsed
+  ORDER BY page.position;
+$$;
@@ -0,0 +1,34 @@
+-- Lets a signed-in user's upload kick the worker for their own jobs only.
+-- owner_filter is NULL for the cron run, which works through every user's
+-- queue.
+DROP FUNCTION public.claim_analysis_jobs(INTEGER, INTEGER);
+
+CREATE FUNCTION public.claim_analysis_jobs(
+  batch_size INTEGER DEFAULT 1,
+  stale_after_seconds INTEGER DEFAULT 300,
+  owner_filter UUID DEFAULT NULL
+)
+RETURNS SETOF public.analysis_jobs
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.analysis_jobs AS job
+  SET status = 'running',
+      attempts = job.attempts + 1,
+      locked_at = now(),
+      updated_at = now()
+  WHERE job.id IN (
+    SELECT candidate.id
+    FROM public.analysis_jobs AS candidate
+    WHERE ((candidate.status = 'pending' AND candidate.next_run_at <= now())
+       OR (candidate.status = 'running' AND candidate.locked_at < now() - make_interval(secs => stale_after_seconds)))
+      AND (owner_filter IS NULL OR candidate.user_id = owner_filter)
+    ORDER BY candidate.next_run_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_analysis_jobs(INTEGER, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_analysis_jobs(INTEGER, INTEGER, UUID) TO service_role;
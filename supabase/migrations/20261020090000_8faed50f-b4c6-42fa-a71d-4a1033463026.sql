@@ -0,0 +1,68 @@
+-- Records a review in one transaction: the document's corrected fields, the
+-- decision and the feedback rows used as few-shot examples either all land or
+-- none do. Runs as the caller, so the usual row level security applies.
+CREATE OR REPLACE FUNCTION public.submit_review(
+  target_file_id UUID,
+  new_classification TEXT,
+  new_summary TEXT,
+  new_metadata JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  existing public.documents%ROWTYPE;
+  changes JSONB := '{}'::jsonb;
+BEGIN
+  SELECT * INTO existing
+  FROM public.documents
+  WHERE file_id = target_file_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', target_file_id;
+  END IF;
+
+  IF new_classification IS DISTINCT FROM coalesce(existing.classification, '') THEN
+    changes := changes || jsonb_build_object('classification', jsonb_build_object('from', existing.classification, 'to', new_classification));
+  END IF;
+  IF new_summary IS DISTINCT FROM coalesce(existing.summary, '') THEN
+    changes := changes || jsonb_build_object('summary', jsonb_build_object('from', existing.summary, 'to', new_summary));
+  END IF;
+  IF new_metadata IS DISTINCT FROM coalesce(existing.metadata, '{}'::jsonb) THEN
+    changes := changes || jsonb_build_object('metadata', jsonb_build_object('from', existing.metadata, 'to', new_metadata));
+  END IF;
+
+  UPDATE public.documents
+  SET classification = CASE WHEN changes ? 'classification' THEN new_classification ELSE classification END,
+      doc_type = CASE WHEN changes ? 'classification' THEN new_classification ELSE doc_type END,
+      summary = CASE WHEN changes ? 'summary' THEN new_summary ELSE summary END,
+      metadata = CASE WHEN changes ? 'metadata' THEN new_metadata ELSE metadata END,
+      status = 'reviewed',
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE file_id = target_file_id;
+
+  INSERT INTO public.review_decisions (file_id, reviewer_id, decision, changes, confidence_before)
+  VALUES (
+    target_file_id,
+    auth.uid(),
+    CASE WHEN changes = '{}'::jsonb THEN 'accepted' ELSE 'corrected' END,
+    changes,
+    existing.confidence
+  );
+
+  INSERT INTO public.document_feedback (file_id, user_id, feedback_type, original_value, corrected_value, reason)
+  SELECT target_file_id, auth.uid(), field.feedback_type, field.original_value, field.corrected_value, 'Corrected during review'
+  FROM (
+    VALUES
+      ('classification', existing.classification, new_classification),
+      ('summary', existing.summary, new_summary)
+  ) AS field (feedback_type, original_value, corrected_value)
+  WHERE changes ? field.feedback_type;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_review(UUID, TEXT, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_review(UUID, TEXT, TEXT, JSONB) TO authenticated;
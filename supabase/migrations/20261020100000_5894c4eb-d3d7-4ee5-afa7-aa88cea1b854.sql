@@ -0,0 +1,57 @@
+-- Field and line-item extraction follow a stable schema key rather than the
+-- type's name, so a renamed type keeps its schema and a custom type can use
+-- one. NULL means the type has no extracted fields.
+ALTER TABLE public.document_types
+ADD COLUMN extraction_schema TEXT CHECK (extraction_schema IN ('invoice', 'contract', 'letter', 'financial', 'legal', 'academic'));
+
+UPDATE public.document_types
+SET extraction_schema = name
+WHERE name IN ('invoice', 'contract', 'letter', 'financial', 'legal', 'academic');
+
+CREATE OR REPLACE FUNCTION public.seed_document_types(target_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.document_types (user_id, name, description, examples, extraction_schema)
+  VALUES
+    (target_user_id, 'report', 'Status, research or analysis reports', ARRAY['Quarterly business review', 'Incident report'], NULL),
+    (target_user_id, 'contract', 'Agreements between parties with terms and signatures', ARRAY['Service agreement', 'Employment contract'], 'contract'),
+    (target_user_id, 'invoice', 'Bills requesting payment for goods or services', ARRAY['Supplier invoice', 'Utility bill'], 'invoice'),
+    (target_user_id, 'letter', 'Correspondence addressed to a person or organization', ARRAY['Cover letter', 'Notice from a landlord'], 'letter'),
+    (target_user_id, 'presentation', 'Slide decks and pitch material', ARRAY['Sales deck', 'Conference slides'], NULL),
+    (target_user_id, 'technical_doc', 'Manuals, specifications and technical documentation', ARRAY['API reference', 'Installation guide'], NULL),
+    (target_user_id, 'academic', 'Papers, theses and coursework', ARRAY['Journal article', 'Lecture notes'], 'academic'),
+    (target_user_id, 'legal', 'Legal filings, policies and regulatory documents', ARRAY['Court filing', 'Privacy policy'], 'legal'),
+    (target_user_id, 'financial', 'Statements, budgets and other financial records', ARRAY['Bank statement', 'Annual budget'], 'financial'),
+    (target_user_id, 'other', 'Anything that fits none of the other types', ARRAY[]::TEXT[], NULL)
+  ON CONFLICT (user_id, name) DO NOTHING;
+$$;
+
+-- Renaming a type also relabels the classification corrections kept as
+-- document_feedback, which few-shot prompting replays to the analyzer.
+-- Feedback rows have no update policy, hence SECURITY DEFINER; the rows
+-- touched are limited to the owner of the renamed type.
+CREATE OR REPLACE FUNCTION public.rename_document_classification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.name <> OLD.name THEN
+    UPDATE public.documents
+    SET classification = NEW.name, doc_type = NEW.name
+    WHERE user_id = NEW.user_id AND classification = OLD.name;
+
+    UPDATE public.document_feedback
+    SET original_value = CASE WHEN original_value = OLD.name THEN NEW.name ELSE original_value END,
+        corrected_value = CASE WHEN corrected_value = OLD.name THEN NEW.name ELSE corrected_value END
+    WHERE user_id = NEW.user_id
+      AND feedback_type = 'classification'
+      AND (original_value = OLD.name OR corrected_value = OLD.name);
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,29 @@
+-- When the document's text was last scanned for personal data. Redacted
+-- exports are only offered once it is set, so a document without spans is
+-- never exported as if it had none.
+ALTER TABLE public.documents ADD COLUMN pii_scanned_at TIMESTAMP WITH TIME ZONE;
+
+-- Documents with stored spans were scanned; the rest are picked up by the
+-- backfill-documents function
+UPDATE public.documents AS d
+SET pii_scanned_at = now()
+WHERE EXISTS (SELECT 1 FROM public.document_pii p WHERE p.file_id = d.file_id);
+
+CREATE INDEX idx_documents_pii_unscanned ON public.documents (created_at)
+WHERE pii_scanned_at IS NULL;
+
+-- Same Vault secrets as the analysis queue schedule
+SELECT cron.schedule(
+  'backfill-documents',
+  '*/10 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/backfill-documents',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
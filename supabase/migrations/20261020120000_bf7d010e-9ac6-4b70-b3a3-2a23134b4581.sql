@@ -0,0 +1,72 @@
+-- The HNSW index spans every account and model, and the user/model filters
+-- only ran on the ef_search candidates it returned, so accounts with a small
+-- share of the chunks got few or no matches. Iterative scans (pgvector 0.8+)
+-- keep walking the index until enough rows pass the filters; relaxed order
+-- is re-sorted below.
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(768),
+  embedding_model TEXT,
+  match_count INTEGER DEFAULT 20,
+  min_similarity DOUBLE PRECISION DEFAULT 0.3
+)
+RETURNS TABLE (
+  file_id UUID,
+  chunk_index INTEGER,
+  content TEXT,
+  start_offset INTEGER,
+  end_offset INTEGER,
+  page INTEGER,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+SET hnsw.iterative_scan = relaxed_order
+SET hnsw.ef_search = 100
+AS $$
+  WITH nearest AS MATERIALIZED (
+    SELECT
+      c.file_id,
+      c.chunk_index,
+      c.content,
+      c.start_offset,
+      c.end_offset,
+      c.page,
+      c.embedding <=> query_embedding AS distance
+    FROM public.document_chunks c
+    WHERE c.user_id = auth.uid()
+      AND c.embedding IS NOT NULL
+      AND c.embedding_model = match_document_chunks.embedding_model
+      AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count
+  )
+  SELECT file_id, chunk_index, content, start_offset, end_offset, page, 1 - distance AS similarity
+  FROM nearest
+  ORDER BY distance;
+$$;
+
+-- Documents with text but no retrieval chunks, e.g. stored before chunking
+-- existed. Used by the backfill-documents function.
+CREATE OR REPLACE FUNCTION public.unindexed_documents(batch_size INTEGER DEFAULT 20)
+RETURNS TABLE (file_id UUID, user_id UUID, extracted_text TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT d.file_id, d.user_id, d.extracted_text
+  FROM public.documents d
+  WHERE d.user_id IS NOT NULL
+    AND d.status <> 'processing'
+    AND length(trim(coalesce(d.extracted_text, ''))) > 0
+    AND NOT EXISTS (SELECT 1 FROM public.document_chunks c WHERE c.file_id = d.file_id)
+  ORDER BY d.created_at
+  LIMIT batch_size;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unindexed_documents(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.unindexed_documents(INTEGER) TO service_role;
+
+-- Finds chunks still waiting for a vector
+CREATE INDEX idx_document_chunks_unembedded ON public.document_chunks (created_at)
+WHERE embedding IS NULL;
@@ -0,0 +1,224 @@
+-- The amount a document is about, for filters like "invoices over 10,000":
+-- an invoice's total or a contract's value from document_fields. Amounts are
+-- compared as numbers whatever their currency.
+CREATE OR REPLACE FUNCTION public.amount(public.documents)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.value_number
+  FROM public.document_fields f
+  WHERE f.file_id = $1.file_id
+    AND f.field_key IN ('total', 'contract_value')
+    AND f.value_number IS NOT NULL
+  ORDER BY f.field_key = 'total' DESC
+  LIMIT 1;
+$$;
+
+-- document_facets and search_documents take an amount range
+DROP FUNCTION public.document_facets(TEXT, TEXT, TEXT, UUID[], UUID[], TEXT[], TEXT[], UUID[], TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT[], TEXT[], TEXT[]);
+
+CREATE OR REPLACE FUNCTION public.document_facets(
+  search_query TEXT DEFAULT NULL,
+  status_filter TEXT DEFAULT NULL,
+  kind_filter TEXT DEFAULT NULL,
+  file_id_filter UUID[] DEFAULT NULL,
+  collection_filter UUID[] DEFAULT NULL,
+  classification_filter TEXT[] DEFAULT NULL,
+  topic_filter TEXT[] DEFAULT NULL,
+  tag_filter UUID[] DEFAULT NULL,
+  uploaded_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  uploaded_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  confidence_filter TEXT[] DEFAULT NULL,
+  method_filter TEXT[] DEFAULT NULL,
+  review_filter TEXT[] DEFAULT NULL,
+  -- Bounds on the extracted amount, both inclusive
+  amount_min NUMERIC DEFAULT NULL,
+  amount_max NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  document_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH scoped AS (
+    SELECT d.*, public.tag_ids(d) AS tags
+    FROM public.documents d
+    WHERE d.user_id = auth.uid()
+      AND (status_filter IS NULL OR d.status = status_filter)
+      AND (kind_filter IS NULL OR d.file_kind = kind_filter)
+      AND (file_id_filter IS NULL OR d.file_id = ANY (file_id_filter))
+      AND (collection_filter IS NULL OR public.collection_ids(d) && collection_filter)
+      AND (uploaded_from IS NULL OR d.created_at >= uploaded_from)
+      AND (uploaded_before IS NULL OR d.created_at < uploaded_before)
+      AND (search_query IS NULL OR d.search_vector @@ websearch_to_tsquery('english', search_query))
+      AND (amount_min IS NULL OR public.amount(d) >= amount_min)
+      AND (amount_max IS NULL OR public.amount(d) <= amount_max)
+  ),
+  flagged AS (
+    SELECT
+      s.classification,
+      s.topics,
+      s.tags,
+      s.confidence_band,
+      s.analysis_method,
+      s.review_state,
+      (classification_filter IS NULL OR s.classification = ANY (classification_filter)) AS in_classification,
+      (topic_filter IS NULL OR s.topics @> topic_filter) AS in_topics,
+      (tag_filter IS NULL OR s.tags @> tag_filter) AS in_tags,
+      (confidence_filter IS NULL OR s.confidence_band = ANY (confidence_filter)) AS in_confidence,
+      (method_filter IS NULL OR s.analysis_method = ANY (method_filter)) AS in_method,
+      (review_filter IS NULL OR s.review_state = ANY (review_filter)) AS in_review
+    FROM scoped s
+  )
+  SELECT 'classification', classification, count(*)
+  FROM flagged
+  WHERE classification IS NOT NULL AND in_topics AND in_tags AND in_confidence AND in_method AND in_review
+  GROUP BY classification
+
+  UNION ALL
+
+  SELECT 'topic', topic, count(*)
+  FROM flagged, unnest(flagged.topics) AS topic
+  WHERE in_classification AND in_topics AND in_tags AND in_confidence AND in_method AND in_review
+  GROUP BY topic
+
+  UNION ALL
+
+  SELECT 'tag', tag_id::TEXT, count(*)
+  FROM flagged, unnest(flagged.tags) AS tag_id
+  WHERE in_classification AND in_topics AND in_tags AND in_confidence AND in_method AND in_review
+  GROUP BY tag_id
+
+  UNION ALL
+
+  SELECT 'confidence', confidence_band, count(*)
+  FROM flagged
+  WHERE confidence_band IS NOT NULL AND in_classification AND in_topics AND in_tags AND in_method AND in_review
+  GROUP BY confidence_band
+
+  UNION ALL
+
+  SELECT 'method', analysis_method, count(*)
+  FROM flagged
+  WHERE analysis_method IS NOT NULL AND in_classification AND in_topics AND in_tags AND in_confidence AND in_review
+  GROUP BY analysis_method
+
+  UNION ALL
+
+  SELECT 'review', review_state, count(*)
+  FROM flagged
+  WHERE in_classification AND in_topics AND in_tags AND in_confidence AND in_method
+  GROUP BY review_state;
+$$;
+
+DROP FUNCTION public.search_documents(TEXT, TEXT, TEXT, UUID[], UUID[], TEXT[], TEXT[], UUID[], TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT[], TEXT[], TEXT[], TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_documents(
+  search_query TEXT,
+  status_filter TEXT DEFAULT NULL,
+  kind_filter TEXT DEFAULT NULL,
+  file_id_filter UUID[] DEFAULT NULL,
+  collection_filter UUID[] DEFAULT NULL,
+  classification_filter TEXT[] DEFAULT NULL,
+  topic_filter TEXT[] DEFAULT NULL,
+  tag_filter UUID[] DEFAULT NULL,
+  uploaded_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  uploaded_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  confidence_filter TEXT[] DEFAULT NULL,
+  method_filter TEXT[] DEFAULT NULL,
+  review_filter TEXT[] DEFAULT NULL,
+  amount_min NUMERIC DEFAULT NULL,
+  amount_max NUMERIC DEFAULT NULL,
+  -- relevance, date, name, size or confidence, as in the file list
+  sort_by TEXT DEFAULT 'relevance',
+  page_offset INTEGER DEFAULT 0,
+  -- NULL returns every match
+  page_limit INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  file_id UUID,
+  rank REAL,
+  snippet TEXT,
+  -- Matches across all pages
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH parsed AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  ),
+  matched AS (
+    SELECT
+      d.file_id,
+      d.filename,
+      d.created_at,
+      d.file_size,
+      d.confidence,
+      d.summary,
+      d.extracted_text,
+      ts_rank(d.search_vector, parsed.q) AS rank
+    FROM public.documents d, parsed
+    WHERE d.user_id = auth.uid()
+      AND d.search_vector @@ parsed.q
+      AND (status_filter IS NULL OR d.status = status_filter)
+      AND (kind_filter IS NULL OR d.file_kind = kind_filter)
+      AND (file_id_filter IS NULL OR d.file_id = ANY (file_id_filter))
+      AND (collection_filter IS NULL OR public.collection_ids(d) && collection_filter)
+      AND (classification_filter IS NULL OR d.classification = ANY (classification_filter))
+      AND (topic_filter IS NULL OR d.topics @> topic_filter)
+      AND (tag_filter IS NULL OR public.tag_ids(d) @> tag_filter)
+      AND (uploaded_from IS NULL OR d.created_at >= uploaded_from)
+      AND (uploaded_before IS NULL OR d.created_at < uploaded_before)
+      AND (confidence_filter IS NULL OR d.confidence_band = ANY (confidence_filter))
+      AND (method_filter IS NULL OR d.analysis_method = ANY (method_filter))
+      AND (review_filter IS NULL OR d.review_state = ANY (review_filter))
+      AND (amount_min IS NULL OR public.amount(d) >= amount_min)
+      AND (amount_max IS NULL OR public.amount(d) <= amount_max)
+  ),
+  -- Same orders as getFiles, with created_at and file_id breaking ties so
+  -- offset pages don't overlap
+  ordered AS (
+    SELECT
+      m.*,
+      count(*) OVER () AS total_count,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN sort_by = 'relevance' THEN m.rank END DESC NULLS LAST,
+          CASE WHEN sort_by = 'name' THEN m.filename END ASC,
+          CASE WHEN sort_by = 'size' THEN m.file_size END DESC NULLS LAST,
+          CASE WHEN sort_by = 'confidence' THEN m.confidence END DESC NULLS LAST,
+          m.created_at DESC NULLS LAST,
+          m.file_id
+      ) AS position
+    FROM matched m
+  ),
+  page AS (
+    SELECT *
+    FROM ordered
+    ORDER BY position
+    OFFSET page_offset
+    LIMIT page_limit
+  )
+  -- Headlines are only built for the page; ts_headline reparses the text, so
+  -- it is also capped
+  SELECT
+    page.file_id,
+    page.rank,
+    ts_headline(
+      'english',
+      left(coalesce(page.summary, '') || E'\n' || coalesce(page.extracted_text, ''), 200000),
+      parsed.q,
+      format('StartSel=%s, StopSel=%s, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "', chr(57344), chr(57345))
+    ) AS snippet,
+    page.total_count
+  FROM page, parsed
+  ORDER BY page.position;
+$$;